@@ -1,29 +1,232 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { SimpleFileUpload } from './components/SimpleFileUpload';
 import { DepthMap3DViewer } from './components/DepthMap3DViewer';
-import { processImageWithEdges, imageDataToDataURL, processImageWithEdgesOptimized, imageDataToDataURLWithDPI, EdgeProcessorOptions } from './utils/edgeProcessor';
+import { ProfileCurveEditor } from './components/ProfileCurveEditor';
+import { StampPrintPreview } from './components/StampPrintPreview';
+import { imageDataToDataURL, imageDataToDataURLWithDPI, EdgeProcessorOptions, ProcessingStage, EdgeType, DEFAULT_LUMINANCE_RELIEF, LuminanceReliefOptions, ReliefBlendMode, DEFAULT_TERRACES, TerraceOptions, resolveTerraceHeights } from './utils/edgeProcessor';
+import { ColorCluster, QuantizeMode } from './utils/colorQuantizer';
+import { createDepthMapProcessor } from './utils/depthMapWorkerClient';
+import { DepthField, depthFieldToImageData, mirrorDepthField } from './utils/depthField';
+import { decodePng16DepthField } from './utils/png16';
+import { DepthMapFormat, exportDepthMap } from './utils/depthMapExporter';
+import { DEFAULT_TOOLPATH_OPTIONS, RasterDirection, ToolShape, Toolpath, ToolpathOptions, parseToolpathOptions } from './utils/toolpath';
+import { createToolpathGenerator } from './utils/toolpathWorkerClient';
+import { DEFAULT_GCODE_OPTIONS, GCodeOptions, exportGCode, parseGCodeOptions } from './utils/gcodeExporter';
+import { HeightFieldOptions, ReliefMode } from './utils/meshBuilder';
+import { DEFAULT_CONTOUR_ALPHA } from './utils/marchingSquares';
+import { exportSTL } from './utils/stlExporter';
+import { export3MF } from './utils/threeMFExporter';
+import { exportOBJ } from './utils/objExporter';
+import { exportPLY } from './utils/plyExporter';
+import { exportGLB } from './utils/glbExporter';
+import { DEFAULT_DPI, PhysicalSizeSettings, mmPerPixelToDPI, readImageDPI, resolveMmPerPixel } from './utils/physicalSize';
+import { DEFAULT_PROFILE_CURVE, ProfileCurve, parseProfileCurve } from './utils/profileCurve';
+import { BasePlateOptions, BasePlateShape, DEFAULT_BASE_PLATE, MountingHole, MountingHoleType, parseBasePlateOptions } from './utils/basePlate';
 
 interface ProcessedImages {
   original: string;
   contour: string;
   depthMap: string;
+  depthMapData: DepthField; // 3D预览和导出共用的浮点深度图
   width: number; // 优化后的图像尺寸
   height: number; // 优化后的图像尺寸
   originalWidth: number; // 原始物理尺寸
   originalHeight: number; // 原始物理尺寸
+  mmPerPixel: number; // 深度图每个像素对应的物理尺寸（mm）
+  terraceClusters: ColorCluster[]; // 分层浮雕的颜色层，由 Worker 随深度图一起返回
+}
+
+// 孔洞（内轮廓）的单独边缘设置，关闭时与外轮廓相同
+interface HoleEdgeSettings {
+  enabled: boolean;
+  edgeType: EdgeType;
+  edgeWidth: number; // mm
+}
+
+const DEFAULT_HOLE_EDGE: HoleEdgeSettings = {
+  enabled: false,
+  edgeType: 'vertical',
+  edgeWidth: 1
+};
+
+// 持久化到localStorage的参数设置，自定义剖面曲线随设置一同保存
+interface SavedSettings {
+  edgeType: EdgeType;
+  edgeWidth: number;
+  holeEdge: HoleEdgeSettings;
+  chamferAngle: number;
+  roundedVerticalRadius: number | null;
+  ogeeBalance: number;
+  beadFilletRatio: number;
+  stepCount: number;
+  modelHeight: number;
+  contourAlpha: number;
+  profileCurve: ProfileCurve;
+  luminanceRelief: LuminanceReliefOptions;
+  terraces: TerraceOptions;
+  reliefMode: ReliefMode;
+  blockThickness: number;
+  basePlate: BasePlateOptions;
+  mirrored: boolean;
+  simplifyMesh: boolean;
+  simplifyTolerance: number;
+  toolpath: ToolpathOptions;
+  gcode: GCodeOptions;
+}
+
+const SETTINGS_STORAGE_KEY = 'relief-settings';
+
+type ExportFormat = 'stl-binary' | 'stl-ascii' | '3mf' | 'obj' | 'obj-textured' | 'ply-binary' | 'ply-ascii' | 'glb';
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  'stl-binary': '二进制STL',
+  'stl-ascii': 'ASCII STL',
+  '3mf': '3MF（含单位和参数）',
+  'obj': 'OBJ（顶点颜色和法线）',
+  'obj-textured': 'OBJ + MTL + 原图纹理 (zip)',
+  'ply-binary': '二进制PLY',
+  'ply-ascii': 'ASCII PLY',
+  'glb': 'GLB（网页分享，含原图纹理）'
+};
+const DEPTH_MAP_FORMAT_LABELS: Record<DepthMapFormat, string> = {
+  png16: '16位PNG',
+  pfm: 'PFM',
+  raw: 'RAW'
+};
+const TOOL_SHAPE_LABELS: Record<ToolShape, string> = {
+  ball: '球头刀',
+  flat: '平底刀',
+  vbit: 'V刀'
+};
+const RASTER_DIRECTION_LABELS: Record<RasterDirection, string> = {
+  x: '沿X方向',
+  y: '沿Y方向'
+};
+const EDGE_TYPE_LABELS: Record<EdgeType, string> = {
+  vertical: '垂直边缘',
+  rounded: '圆角边缘',
+  chamfered: '切角边缘',
+  cove: '凹圆线脚',
+  ogee: '反曲线脚',
+  bead: '圆珠线脚',
+  stepped: '阶梯边缘',
+  custom: '自定义剖面'
+};
+
+const EDGE_TYPES = Object.keys(EDGE_TYPE_LABELS) as EdgeType[];
+
+const BASE_PLATE_SHAPE_LABELS: Record<BasePlateShape, string> = {
+  rectangle: '矩形',
+  rounded: '圆角矩形',
+  circle: '圆形',
+  contour: '沿轮廓外扩'
+};
+
+const MOUNTING_HOLE_LABELS: Record<MountingHoleType, string> = {
+  screw: '螺丝孔',
+  keyhole: '钥匙孔挂孔'
+};
+
+const PROCESSING_STAGE_LABELS: Record<ProcessingStage, string> = {
+  contour: '提取轮廓',
+  distance: '计算距离场',
+  depth: '生成深度图',
+  smoothing: '边缘平滑',
+  upscale: 'DPI放大'
+};
+
+function loadSavedSettings(): Partial<SavedSettings> {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!saved) return {};
+    
+    const parsed = JSON.parse(saved);
+    const number = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+    return {
+      edgeType: EDGE_TYPES.includes(parsed.edgeType) ? parsed.edgeType : undefined,
+      edgeWidth: number(parsed.edgeWidth),
+      holeEdge: parsed.holeEdge && typeof parsed.holeEdge === 'object' && EDGE_TYPES.includes(parsed.holeEdge.edgeType)
+        ? { ...DEFAULT_HOLE_EDGE, ...parsed.holeEdge }
+        : undefined,
+      chamferAngle: number(parsed.chamferAngle),
+      roundedVerticalRadius: number(parsed.roundedVerticalRadius),
+      ogeeBalance: number(parsed.ogeeBalance),
+      beadFilletRatio: number(parsed.beadFilletRatio),
+      stepCount: number(parsed.stepCount),
+      modelHeight: number(parsed.modelHeight),
+      contourAlpha: number(parsed.contourAlpha),
+      profileCurve: parseProfileCurve(parsed.profileCurve) ?? undefined,
+      luminanceRelief: parsed.luminanceRelief && typeof parsed.luminanceRelief === 'object'
+        ? { ...DEFAULT_LUMINANCE_RELIEF, ...parsed.luminanceRelief }
+        : undefined,
+      terraces: parsed.terraces && typeof parsed.terraces === 'object'
+        ? { ...DEFAULT_TERRACES, ...parsed.terraces }
+        : undefined,
+      reliefMode: parsed.reliefMode === 'raised' || parsed.reliefMode === 'engrave' ? parsed.reliefMode : undefined,
+      blockThickness: number(parsed.blockThickness),
+      basePlate: parseBasePlateOptions(parsed.basePlate) ?? undefined,
+      mirrored: typeof parsed.mirrored === 'boolean' ? parsed.mirrored : undefined,
+      simplifyMesh: typeof parsed.simplifyMesh === 'boolean' ? parsed.simplifyMesh : undefined,
+      simplifyTolerance: number(parsed.simplifyTolerance),
+      toolpath: parseToolpathOptions(parsed.toolpath) ?? undefined,
+      gcode: parseGCodeOptions(parsed.gcode) ?? undefined
+    };
+  } catch {
+    return {};
+  }
 }
 
 function App() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [originalImageData, setOriginalImageData] = useState<ImageData | null>(null);
+  // 上传的16位灰度PNG高度图，直接作为深度图使用，跳过边缘处理
+  const [heightMap, setHeightMap] = useState<DepthField | null>(null);
   const [processedImages, setProcessedImages] = useState<ProcessedImages | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [processingStage, setProcessingStage] = useState<ProcessingStage | null>(null);
   
-  // 参数设置
-  const [edgeType, setEdgeType] = useState<'vertical' | 'rounded' | 'chamfered'>('vertical');
-  const [edgeWidth, setEdgeWidth] = useState(20);
-  const [chamferAngle, setChamferAngle] = useState(45);
-  const [modelHeight, setModelHeight] = useState(1.5); // 新增：3D模型高度参数 (mm)
+  // 深度图在 Worker 中处理，新的参数变化会取消进行中的任务
+  const [depthMapProcessor] = useState(createDepthMapProcessor);
+  useEffect(() => () => depthMapProcessor.dispose(), [depthMapProcessor]);
+  // 刀路在另一个 Worker 中生成
+  const [toolpathGenerator] = useState(createToolpathGenerator);
+  useEffect(() => () => toolpathGenerator.dispose(), [toolpathGenerator]);
+  
+  // 参数设置，从localStorage恢复上次的设置
+  const [savedSettings] = useState(loadSavedSettings);
+  const [edgeType, setEdgeType] = useState<EdgeType>(savedSettings.edgeType ?? 'vertical');
+  const [edgeWidth, setEdgeWidth] = useState(savedSettings.edgeWidth ?? 2); // 边缘宽度 (mm)
+  const [holeEdge, setHoleEdge] = useState<HoleEdgeSettings>(savedSettings.holeEdge ?? DEFAULT_HOLE_EDGE); // 孔洞边缘
+  const [chamferAngle, setChamferAngle] = useState(savedSettings.chamferAngle ?? 45);
+  const [roundedVerticalRadius, setRoundedVerticalRadius] = useState<number | null>(savedSettings.roundedVerticalRadius ?? null); // 圆角竖直半径 (mm)，null 表示等于模型高度
+  const [ogeeBalance, setOgeeBalance] = useState(savedSettings.ogeeBalance ?? 0.5); // 反曲线拐点位置
+  const [beadFilletRatio, setBeadFilletRatio] = useState(savedSettings.beadFilletRatio ?? 0.2); // 圆珠线台阶高度比例
+  const [stepCount, setStepCount] = useState(savedSettings.stepCount ?? 3); // 阶梯数
+  const [modelHeight, setModelHeight] = useState(savedSettings.modelHeight ?? 1.5); // 新增：3D模型高度参数 (mm)
+  const [contourAlpha, setContourAlpha] = useState(savedSettings.contourAlpha ?? DEFAULT_CONTOUR_ALPHA); // 轮廓等值线的透明度
+  const [profileCurve, setProfileCurve] = useState<ProfileCurve>(savedSettings.profileCurve ?? DEFAULT_PROFILE_CURVE); // 自定义边缘剖面
+  const [luminanceRelief, setLuminanceRelief] = useState<LuminanceReliefOptions>(savedSettings.luminanceRelief ?? DEFAULT_LUMINANCE_RELIEF); // 原图灰度浮雕
+  const [terraces, setTerraces] = useState<TerraceOptions>(savedSettings.terraces ?? DEFAULT_TERRACES); // 分层浮雕
+  const [reliefMode, setReliefMode] = useState<ReliefMode>(savedSettings.reliefMode ?? 'raised'); // 浮雕（凸起）或雕刻（凹陷）
+  const [blockThickness, setBlockThickness] = useState(savedSettings.blockThickness ?? 3); // 雕刻模式的块体厚度 (mm)
+  const [basePlate, setBasePlate] = useState<BasePlateOptions>(savedSettings.basePlate ?? DEFAULT_BASE_PLATE); // 底板
+  const [mirrored, setMirrored] = useState(savedSettings.mirrored ?? false); // 水平镜像（印章）
+  const [simplifyMesh, setSimplifyMesh] = useState(savedSettings.simplifyMesh ?? true); // 自适应网格简化
+  const [simplifyTolerance, setSimplifyTolerance] = useState(savedSettings.simplifyTolerance ?? 0.01); // 简化允许的高度误差 (mm)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('stl-binary');
+  const [toolpathOptions, setToolpathOptions] = useState<ToolpathOptions>(savedSettings.toolpath ?? DEFAULT_TOOLPATH_OPTIONS); // CNC刀路参数
+  const [gcodeOptions, setGCodeOptions] = useState<GCodeOptions>(savedSettings.gcode ?? DEFAULT_GCODE_OPTIONS); // 进给、转速和安全高度
+  const [toolpath, setToolpath] = useState<Toolpath | null>(null); // 已生成的刀路，深度图或参数变化后失效
+  const [showToolpath, setShowToolpath] = useState(true); // 在3D预览中显示刀路
+  const [isGeneratingToolpath, setIsGeneratingToolpath] = useState(false);
+  
+  // 物理尺寸设置：按图像DPI换算，或直接指定成品宽度/高度
+  const [physicalSize, setPhysicalSize] = useState<PhysicalSizeSettings>({
+    mode: 'dpi',
+    dpi: DEFAULT_DPI,
+    widthMm: 40,
+    heightMm: 40
+  });
+  const [fileDPI, setFileDPI] = useState<number | null>(null);
   
   // DPI优化相关状态
   const [enableDPIOptimization, setEnableDPIOptimization] = useState(true);
@@ -59,13 +262,29 @@ function App() {
     try {
       console.log('开始处理文件:', file.name);
       
-      // 加载图像
+      // 读取文件中记录的DPI；未记录时恢复默认值，不沿用上一个文件的DPI
+      const dpi = await readImageDPI(file);
+      setFileDPI(dpi);
+      if (dpi) {
+        console.log(`读取到图像DPI: ${dpi.toFixed(1)}`);
+      } else {
+        console.log(`文件未记录DPI，使用默认值 ${DEFAULT_DPI}`);
+      }
+      setPhysicalSize(prev => ({ ...prev, dpi: dpi ?? DEFAULT_DPI }));
+      
+      // 16位灰度PNG视为高度图，保留完整精度；界面显示和纹理使用其8位版本。16位彩色PNG按普通图像处理
+      const decodedHeightMap = await decodePng16DepthField(new Uint8Array(await file.arrayBuffer()));
+      setHeightMap(decodedHeightMap);
+      if (decodedHeightMap) {
+        console.log('检测到16位灰度PNG，作为高度图直接导入');
+        setOriginalImageData(depthFieldToImageData(decodedHeightMap));
+        return;
+      }
+      
+      // 加载图像，参数变化的防抖处理会自动生成深度图
       const imageData = await loadImageFromFile(file);
       setOriginalImageData(imageData);
       
-      // 处理图像
-      await processImages(imageData);
-      
     } catch (error) {
       console.error('文件处理失败:', error);
       alert('文件处理失败: ' + (error as Error).message);
@@ -76,6 +295,9 @@ function App() {
 
   // 防抖处理参数变化
   const debouncedProcessImages = (imageData: ImageData) => {
+    // 旧参数的结果已经没有意义，立即取消进行中的任务
+    depthMapProcessor.cancel();
+    
     // 设置防抖状态
     setIsDebouncing(true);
     
@@ -91,6 +313,44 @@ function App() {
     }, 300);
   };
 
+  // 原图每个像素对应的物理尺寸（mm）
+  const mmPerPixel = useMemo(() => {
+    if (!originalImageData) return resolveMmPerPixel({ ...physicalSize, mode: 'dpi' }, 1, 1);
+    return resolveMmPerPixel(physicalSize, originalImageData.width, originalImageData.height);
+  }, [physicalSize, originalImageData]);
+
+  // 持久化参数设置
+  useEffect(() => {
+    const settings: SavedSettings = {
+      edgeType,
+      edgeWidth,
+      holeEdge,
+      chamferAngle,
+      roundedVerticalRadius,
+      ogeeBalance,
+      beadFilletRatio,
+      stepCount,
+      modelHeight,
+      contourAlpha,
+      profileCurve,
+      luminanceRelief,
+      terraces,
+      reliefMode,
+      blockThickness,
+      basePlate,
+      mirrored,
+      simplifyMesh,
+      simplifyTolerance,
+      toolpath: toolpathOptions,
+      gcode: gcodeOptions
+    };
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('无法保存参数设置到localStorage:', error);
+    }
+  }, [edgeType, edgeWidth, holeEdge, chamferAngle, roundedVerticalRadius, ogeeBalance, beadFilletRatio, stepCount, modelHeight, contourAlpha, profileCurve, luminanceRelief, terraces, reliefMode, blockThickness, basePlate, mirrored, simplifyMesh, simplifyTolerance, toolpathOptions, gcodeOptions]);
+
   // 当参数改变时使用防抖处理
   useEffect(() => {
     if (originalImageData) {
@@ -103,7 +363,7 @@ function App() {
         window.clearTimeout(debounceTimer.current);
       }
     };
-  }, [edgeType, edgeWidth, chamferAngle, enableDPIOptimization, targetDPI, enableEdgeSmoothing, smoothingStrength, originalImageData]);
+  }, [edgeType, edgeWidth, holeEdge, chamferAngle, roundedVerticalRadius, ogeeBalance, beadFilletRatio, stepCount, profileCurve, luminanceRelief, terraces, modelHeight, contourAlpha, mirrored, mmPerPixel, enableDPIOptimization, targetDPI, enableEdgeSmoothing, smoothingStrength, originalImageData]);
 
   const loadImageFromFile = (file: File): Promise<ImageData> => {
     return new Promise((resolve, reject) => {
@@ -137,6 +397,8 @@ function App() {
 
   const processImages = async (imageData: ImageData) => {
     setIsProcessing(true);
+    setProcessingStage(null);
+    let cancelled = false;
     
     try {
       // 创建原图URL
@@ -150,7 +412,19 @@ function App() {
       const depthMapOptions: EdgeProcessorOptions = {
         edgeType,
         edgeWidth,
-        chamferAngle
+        holeEdgeType: holeEdge.enabled ? holeEdge.edgeType : undefined,
+        holeEdgeWidth: holeEdge.enabled ? holeEdge.edgeWidth : undefined,
+        chamferAngle,
+        roundedVerticalRadius: roundedVerticalRadius ?? undefined,
+        ogeeBalance,
+        beadFilletRatio,
+        stepCount,
+        modelHeight,
+        mmPerPixel,
+        contourAlpha,
+        profileCurve,
+        luminanceRelief,
+        terraces
       };
       
       // 调试信息：确认参数状态
@@ -160,20 +434,32 @@ function App() {
       console.log(`enableEdgeSmoothing: ${enableEdgeSmoothing}`);
       console.log(`smoothingStrength: ${smoothingStrength}`);
       
-      // 使用专门为深度图优化的处理函数
-      const depthMapImageData = processImageWithEdgesOptimized(
-        imageData, 
-        depthMapOptions, 
-        enableDPIOptimization, 
-        targetDPI,
-        enableEdgeSmoothing,
-        smoothingStrength
+      // 在 Worker 中运行专门为深度图优化的处理函数；导入的高度图直接使用
+      const result = heightMap ? { depthMap: heightMap, terraceClusters: [] } : await depthMapProcessor.process(
+        imageData,
+        {
+          options: depthMapOptions,
+          enableDPIOptimization,
+          targetDPI,
+          enableEdgeSmoothing,
+          smoothingStrength
+        },
+        setProcessingStage
       );
+      if (!result) {
+        // 已被更新的参数取消，由新任务更新界面
+        cancelled = true;
+        return;
+      }
       
-      // 使用带DPI信息的URL生成
-      const depthMapUrl = enableDPIOptimization 
-        ? imageDataToDataURLWithDPI(depthMapImageData, targetDPI)
-        : imageDataToDataURL(depthMapImageData);
+      // 印章需要镜像，预览和所有导出都使用镜像后的深度图
+      const depthMapData = mirrored ? mirrorDepthField(result.depthMap) : result.depthMap;
+      
+      // DPI优化会提高分辨率，物理尺寸保持不变
+      const depthMapMmPerPixel = mmPerPixel * imageData.width / depthMapData.width;
+      
+      // 使用带DPI信息的URL生成，界面显示8位版本
+      const depthMapUrl = imageDataToDataURLWithDPI(depthFieldToImageData(depthMapData), mmPerPixelToDPI(depthMapMmPerPixel));
       
       // 添加时间戳防止浏览器缓存
       const timestamped = depthMapUrl + `#${Date.now()}`;
@@ -182,16 +468,22 @@ function App() {
         original: originalUrl,
         contour: contourUrl,
         depthMap: timestamped, // 使用带时间戳的URL
-        width: depthMapImageData.width, // 优化后的高分辨率尺寸
-        height: depthMapImageData.height, // 优化后的高分辨率尺寸
+        depthMapData,
+        width: depthMapData.width, // 优化后的高分辨率尺寸
+        height: depthMapData.height, // 优化后的高分辨率尺寸
         originalWidth: imageData.width, // 原始物理尺寸
-        originalHeight: imageData.height // 原始物理尺寸
+        originalHeight: imageData.height, // 原始物理尺寸
+        mmPerPixel: depthMapMmPerPixel,
+        terraceClusters: result.terraceClusters
       });
       
     } catch (error) {
       console.error('图像处理失败:', error);
     } finally {
-      setIsProcessing(false);
+      if (!cancelled) {
+        setIsProcessing(false);
+        setProcessingStage(null);
+      }
     }
   };
 
@@ -206,7 +498,7 @@ function App() {
       const a = data[i + 3];
       
       // 简化逻辑：只根据透明度判断
-      if (a > 32) {
+      if (a >= contourAlpha) {
         // 不透明区域显示为白色
         result.data[i] = 255;     // R
         result.data[i + 1] = 255; // G
@@ -224,6 +516,199 @@ function App() {
     return result;
   };
 
+  const updateLuminanceRelief = (changes: Partial<LuminanceReliefOptions>) => {
+    setLuminanceRelief(prev => ({ ...prev, ...changes }));
+  };
+  
+  // 灰度范围的标签：叠加模式下是加在剖面之上的高度；缩放叠加模式下显示剖面到顶的内部区域缩放后的实际高度
+  const reliefRangeLabel = (name: string, value: number): string => {
+    if (luminanceRelief.blendMode === 'add') {
+      return `${name}叠加: +${Math.round(value * 100)}%（+${(value * modelHeight).toFixed(2)}mm，超出模型高度截断）`;
+    }
+    const ratio = luminanceRelief.blendMode === 'addScaled'
+      ? (1 + value) / (1 + Math.max(0, luminanceRelief.rangeMax))
+      : value;
+    return `${name}高度: ${Math.round(ratio * 100)}%（${(ratio * modelHeight).toFixed(2)}mm）`;
+  };
+
+  const updateTerraces = (changes: Partial<TerraceOptions>) => {
+    setTerraces(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateBasePlate = (changes: Partial<BasePlateOptions>) => {
+    setBasePlate(prev => ({ ...prev, ...changes }));
+  };
+  
+  const updateToolpathOptions = (changes: Partial<ToolpathOptions>) => {
+    setToolpathOptions(prev => ({ ...prev, ...changes }));
+  };
+  
+  const updateGCodeOptions = (changes: Partial<GCodeOptions>) => {
+    setGCodeOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateMountingHole = (index: number, changes: Partial<MountingHole>) => {
+    setBasePlate(prev => ({
+      ...prev,
+      holes: prev.holes.map((hole, i) => (i === index ? { ...hole, ...changes } : hole))
+    }));
+  };
+
+  const setTerraceHeight = (level: number, height: number) => {
+    const levelHeights = resolveTerraceHeights(terraces, modelHeight);
+    levelHeights[level] = height;
+    updateTerraces({ levelHeights });
+  };
+
+  // 分层浮雕的颜色层，直接使用深度图生成时在 Worker 中得到的聚类，用于显示每层的色块
+  const terraceClusters = processedImages?.terraceClusters ?? [];
+
+  // 3D预览和所有导出共用的建模参数
+  const meshOptions = useMemo<HeightFieldOptions | null>(() => {
+    if (!processedImages) return null;
+    
+    return {
+      modelHeight,
+      mmPerPixel: processedImages.mmPerPixel,
+      contourAlpha,
+      mode: reliefMode,
+      blockThickness: Math.max(blockThickness, modelHeight + 0.5),
+      basePlate,
+      simplifyTolerance: simplifyMesh ? simplifyTolerance : 0
+    };
+  }, [processedImages, modelHeight, contourAlpha, reliefMode, blockThickness, basePlate, simplifyMesh, simplifyTolerance]);
+
+  // 所有格式都使用与3D预览相同的深度图和建模参数
+  const handleExport = () => {
+    if (!processedImages || !meshOptions) return;
+    
+    const depthMap = processedImages.depthMapData;
+    const objectName = selectedFile?.name.replace(/\.[^.]+$/, '') || 'relief';
+    const filename = `3d-model-${edgeType}-${Date.now()}`;
+    
+    try {
+      switch (exportFormat) {
+        case 'stl-binary':
+        case 'stl-ascii':
+          exportSTL({ depthMap, meshOptions, format: exportFormat === 'stl-binary' ? 'binary' : 'ascii', filename: `${filename}.stl` });
+          break;
+        case '3mf':
+          // 3MF带有毫米单位，对象名取源文件名，生成参数写入元数据
+          export3MF({
+            depthMap,
+            meshOptions,
+            objectName,
+            parameters: {
+              sourceFile: selectedFile?.name ?? '',
+              edgeType,
+              edgeWidth,
+              ...(edgeType === 'chamfered' ? { chamferAngle } : {}),
+              modelHeight,
+              reliefMode,
+              ...(reliefMode === 'engrave' ? { blockThickness: meshOptions.blockThickness ?? blockThickness } : {}),
+              basePlate: basePlate.enabled ? `${basePlate.shape}, ${basePlate.thickness}mm` : 'off',
+              mirrored,
+              contourAlpha,
+              mmPerPixel: meshOptions.mmPerPixel,
+              simplifyTolerance: meshOptions.simplifyTolerance ?? 0
+            },
+            filename: `${filename}.3mf`
+          });
+          break;
+        case 'obj':
+        case 'obj-textured':
+          exportOBJ({
+            depthMap,
+            meshOptions,
+            objectName,
+            withMaterial: exportFormat === 'obj-textured',
+            textureDataURL: processedImages.original,
+            flipTexture: mirrored,
+            filename
+          });
+          break;
+        case 'ply-binary':
+        case 'ply-ascii':
+          exportPLY({ depthMap, meshOptions, format: exportFormat === 'ply-binary' ? 'binary' : 'ascii', filename: `${filename}.ply` });
+          break;
+        case 'glb':
+          exportGLB({
+            depthMap,
+            meshOptions,
+            texture: originalImageData ?? undefined,
+            flipTexture: mirrored,
+            objectName,
+            filename: `${filename}.glb`
+          });
+          break;
+      }
+    } catch (error) {
+      console.error('模型导出失败:', error);
+      alert('模型导出失败，请重试');
+    }
+  };
+
+  // 高精度深度图下载，PFM 和 RAW 保存毫米高度
+  const handleDepthMapDownload = async (format: DepthMapFormat) => {
+    if (!processedImages) return;
+    
+    try {
+      await exportDepthMap({
+        depthMap: processedImages.depthMapData,
+        format,
+        modelHeight,
+        dpi: mmPerPixelToDPI(processedImages.mmPerPixel),
+        filename: `depth-map-${edgeType}-${Date.now()}`
+      });
+    } catch (error) {
+      console.error('深度图导出失败:', error);
+      alert('深度图导出失败，请重试');
+    }
+  };
+
+  // 深度图、建模参数或刀路参数变化后，已生成的刀路不再对应当前模型，进行中的生成任务也随之取消
+  useEffect(() => {
+    toolpathGenerator.cancel();
+    setToolpath(null);
+  }, [toolpathGenerator, processedImages, meshOptions, toolpathOptions]);
+  
+  // 刀路与3D预览、模型导出使用同一高度场，在 Worker 中生成，界面不会卡顿
+  const handleGenerateToolpath = async () => {
+    if (!processedImages || !meshOptions) return;
+    
+    setIsGeneratingToolpath(true);
+    try {
+      const result = await toolpathGenerator.generate(processedImages.depthMapData, meshOptions, toolpathOptions);
+      // 被取消时返回 null，保持刀路为空
+      if (result) setToolpath(result);
+    } catch (error) {
+      console.error('刀路生成失败:', error);
+      alert('刀路生成失败，请重试');
+    } finally {
+      setIsGeneratingToolpath(false);
+    }
+  };
+  
+  const handleCancelToolpath = () => {
+    toolpathGenerator.cancel();
+  };
+  
+  const handleExportGCode = () => {
+    if (!toolpath) return;
+    
+    try {
+      exportGCode({
+        toolpath,
+        gcode: gcodeOptions,
+        programName: selectedFile?.name.replace(/\.[^.]+$/, '') || 'relief',
+        filename: `relief-${toolpath.options.toolShape}-${Date.now()}.nc`
+      });
+    } catch (error) {
+      console.error('G代码导出失败:', error);
+      alert('G代码导出失败，请重试');
+    }
+  };
+
   const downloadImage = (url: string, filename: string) => {
     const link = document.createElement('a');
     link.href = url;
@@ -244,9 +729,14 @@ function App() {
 
   // 全屏参数变化处理函数
   const handleParameterChange = (params: {
-    edgeType?: 'vertical' | 'rounded' | 'chamfered';
+    edgeType?: EdgeType;
     edgeWidth?: number;
     chamferAngle?: number;
+    roundedVerticalRadius?: number | null;
+    ogeeBalance?: number;
+    beadFilletRatio?: number;
+    stepCount?: number;
+    profileCurve?: ProfileCurve;
     modelHeight?: number;
     enableDPIOptimization?: boolean;
     targetDPI?: number;
@@ -262,6 +752,21 @@ function App() {
     if (params.chamferAngle !== undefined) {
       setChamferAngle(params.chamferAngle);
     }
+    if (params.roundedVerticalRadius !== undefined) {
+      setRoundedVerticalRadius(params.roundedVerticalRadius);
+    }
+    if (params.ogeeBalance !== undefined) {
+      setOgeeBalance(params.ogeeBalance);
+    }
+    if (params.beadFilletRatio !== undefined) {
+      setBeadFilletRatio(params.beadFilletRatio);
+    }
+    if (params.stepCount !== undefined) {
+      setStepCount(params.stepCount);
+    }
+    if (params.profileCurve !== undefined) {
+      setProfileCurve(params.profileCurve);
+    }
     if (params.modelHeight !== undefined) {
       setModelHeight(params.modelHeight);
     }
@@ -344,6 +849,11 @@ function App() {
                     <option value="vertical">垂直边缘（无过渡）</option>
                     <option value="rounded">圆角边缘</option>
                     <option value="chamfered">切角边缘</option>
+                    <option value="cove">凹圆线脚</option>
+                    <option value="ogee">反曲线脚（S形）</option>
+                    <option value="bead">圆珠线脚（带台阶）</option>
+                    <option value="stepped">阶梯边缘</option>
+                    <option value="custom">自定义剖面</option>
                   </select>
                 </div>
 
@@ -351,7 +861,7 @@ function App() {
                 {edgeType !== 'vertical' && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      边缘宽度 (像素): {edgeWidth}
+                      边缘宽度 (mm): {edgeWidth}
                       {(isProcessing || isDebouncing) && (
                         <span className="text-xs text-orange-500 ml-2">
                           {isDebouncing ? '准备计算...' : '计算中...'}
@@ -360,16 +870,16 @@ function App() {
                     </label>
                     <input
                       type="range"
-                      min="1"
-                      max="100"
-                      step="1"
+                      min="0.1"
+                      max="10"
+                      step="0.1"
                       value={edgeWidth}
-                      onChange={(e) => setEdgeWidth(parseInt(e.target.value))}
+                      onChange={(e) => setEdgeWidth(parseFloat(e.target.value))}
                       className="w-full"
                     />
                     <div className="flex justify-between text-xs text-gray-500 mt-1">
-                      <span>1</span>
-                      <span>100</span>
+                      <span>0.1mm</span>
+                      <span>10mm</span>
                     </div>
                     <p className="text-xs text-gray-400 mt-1">
                       💡 拖拽结束后0.3秒开始计算
@@ -401,16 +911,413 @@ function App() {
                       <span>15°</span>
                       <span>75°</span>
                     </div>
+                    <p className="text-xs text-gray-400 mt-1">
+                      📐 斜面下降 {Math.min(modelHeight, edgeWidth * Math.tan(chamferAngle * Math.PI / 180)).toFixed(2)}mm
+                      {edgeWidth * Math.tan(chamferAngle * Math.PI / 180) < modelHeight ? '，下方保留竖直侧壁' : '，在底面截断'}
+                    </p>
                     <p className="text-xs text-gray-400 mt-1">
                       💡 停止拖拽后0.3秒开始计算
                     </p>
                   </div>
                 )}
 
+                {/* 圆角竖直半径 */}
+                {edgeType === 'rounded' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      竖直半径 (mm): {roundedVerticalRadius ?? modelHeight}
+                    </label>
+                    <div className="flex items-center space-x-3 mb-2">
+                      <label className="flex items-center cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={roundedVerticalRadius === null}
+                          onChange={(e) => setRoundedVerticalRadius(e.target.checked ? null : modelHeight)}
+                          className="form-checkbox h-4 w-4 text-blue-600 rounded"
+                        />
+                        <span className="ml-2 text-sm text-gray-700">等于模型高度</span>
+                      </label>
+                    </div>
+                    {roundedVerticalRadius !== null && (
+                      <>
+                        <input
+                          type="range"
+                          min="0.1"
+                          max="5"
+                          step="0.1"
+                          value={roundedVerticalRadius}
+                          onChange={(e) => setRoundedVerticalRadius(parseFloat(e.target.value))}
+                          className="w-full"
+                        />
+                        <div className="flex justify-between text-xs text-gray-500 mt-1">
+                          <span>0.1mm</span>
+                          <span>5mm</span>
+                        </div>
+                      </>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">
+                      📐 水平半径为边缘宽度 {edgeWidth}mm
+                      {roundedVerticalRadius !== null && roundedVerticalRadius < modelHeight
+                        ? `，圆角下方保留 ${(modelHeight - roundedVerticalRadius).toFixed(2)}mm 竖直侧壁`
+                        : roundedVerticalRadius !== null && roundedVerticalRadius > modelHeight
+                          ? '，圆角在底面截断'
+                          : ''}
+                    </p>
+                  </div>
+                )}
+
+                {/* 反曲线拐点 */}
+                {edgeType === 'ogee' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      拐点位置: {Math.round(ogeeBalance * 100)}%
+                    </label>
+                    <input
+                      type="range"
+                      min="0.1"
+                      max="0.9"
+                      step="0.05"
+                      value={ogeeBalance}
+                      onChange={(e) => setOgeeBalance(parseFloat(e.target.value))}
+                      className="w-full"
+                    />
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>凸弧为主</span>
+                      <span>凹弧为主</span>
+                    </div>
+                  </div>
+                )}
+
+                {/* 圆珠线台阶 */}
+                {edgeType === 'bead' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      台阶高度: {Math.round(beadFilletRatio * 100)}%
+                      （{(beadFilletRatio * modelHeight).toFixed(2)}mm）
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="0.6"
+                      step="0.05"
+                      value={beadFilletRatio}
+                      onChange={(e) => setBeadFilletRatio(parseFloat(e.target.value))}
+                      className="w-full"
+                    />
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>0%</span>
+                      <span>60%</span>
+                    </div>
+                  </div>
+                )}
+
+                {/* 阶梯数 */}
+                {edgeType === 'stepped' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      台阶数: {stepCount}
+                    </label>
+                    <input
+                      type="range"
+                      min="2"
+                      max="10"
+                      step="1"
+                      value={stepCount}
+                      onChange={(e) => setStepCount(parseInt(e.target.value))}
+                      className="w-full"
+                    />
+                    <div className="flex justify-between text-xs text-gray-500 mt-1">
+                      <span>2</span>
+                      <span>10</span>
+                    </div>
+                    <p className="text-xs text-gray-400 mt-1">
+                      📐 每级宽 {(edgeWidth / stepCount).toFixed(2)}mm，高 {(modelHeight / stepCount).toFixed(2)}mm
+                    </p>
+                  </div>
+                )}
+
+                {/* 自定义剖面曲线 */}
+                {edgeType === 'custom' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      剖面曲线
+                      {(isProcessing || isDebouncing) && (
+                        <span className="text-xs text-orange-500 ml-2">
+                          {isDebouncing ? '准备计算...' : '计算中...'}
+                        </span>
+                      )}
+                    </label>
+                    <ProfileCurveEditor curve={profileCurve} onChange={setProfileCurve} />
+                  </div>
+                )}
+
+                {/* 孔洞边缘 */}
+                <div>
+                  <label className="flex items-center cursor-pointer mb-2">
+                    <input
+                      type="checkbox"
+                      checked={holeEdge.enabled}
+                      onChange={(e) => setHoleEdge(prev => ({ ...prev, enabled: e.target.checked }))}
+                      className="form-checkbox h-4 w-4 text-blue-600 rounded"
+                    />
+                    <span className="ml-2 text-sm font-medium text-gray-700">孔洞边缘单独设置</span>
+                  </label>
+                  
+                  {holeEdge.enabled && (
+                    <div className="space-y-3">
+                      <select
+                        value={holeEdge.edgeType}
+                        onChange={(e) => setHoleEdge(prev => ({ ...prev, edgeType: e.target.value as EdgeType }))}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {EDGE_TYPES.map(type => (
+                          <option key={type} value={type}>{EDGE_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                      
+                      {holeEdge.edgeType !== 'vertical' && (
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">
+                            孔洞边缘宽度 (mm): {holeEdge.edgeWidth}
+                          </label>
+                          <input
+                            type="range"
+                            min="0.1"
+                            max="10"
+                            step="0.1"
+                            value={holeEdge.edgeWidth}
+                            onChange={(e) => setHoleEdge(prev => ({ ...prev, edgeWidth: parseFloat(e.target.value) }))}
+                            className="w-full"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  
+                  <p className="text-xs text-gray-400 mt-1">
+                    💡 孔洞指字母“O”的中空部分、圆环的内圈等内轮廓，其余参数与外轮廓共用
+                  </p>
+                </div>
+
+                {/* 分层浮雕 */}
+                <div>
+                  <label className="flex items-center cursor-pointer mb-2">
+                    <input
+                      type="checkbox"
+                      checked={terraces.enabled}
+                      onChange={(e) => updateTerraces({ enabled: e.target.checked })}
+                      className="form-checkbox h-4 w-4 text-blue-600 rounded"
+                    />
+                    <span className="ml-2 text-sm font-medium text-gray-700">分层浮雕（按颜色分级）</span>
+                  </label>
+                  
+                  {terraces.enabled && (
+                    <div className="space-y-3">
+                      <div className="flex space-x-2">
+                        <select
+                          value={terraces.quantizeMode}
+                          onChange={(e) => updateTerraces({ quantizeMode: e.target.value as QuantizeMode })}
+                          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="color">按颜色聚类</option>
+                          <option value="grey">按灰度聚类</option>
+                        </select>
+                        <select
+                          value={terraces.levelCount}
+                          onChange={(e) => updateTerraces({ levelCount: parseInt(e.target.value), levelHeights: [] })}
+                          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          {[2, 3, 4, 5, 6, 7, 8].map(count => (
+                            <option key={count} value={count}>{count} 层</option>
+                          ))}
+                        </select>
+                      </div>
+                      
+                      {resolveTerraceHeights(terraces, modelHeight).map((levelHeight, level) => {
+                        const cluster = terraceClusters[level];
+                        return (
+                          <div key={level} className="flex items-center space-x-2">
+                            <span
+                              className="w-5 h-5 rounded border border-gray-300 flex-shrink-0"
+                              style={{ backgroundColor: cluster ? `rgb(${cluster.color.map(Math.round).join(',')})` : 'transparent' }}
+                              title={cluster ? '该层的代表颜色' : '图像中没有足够的颜色'}
+                            />
+                            <input
+                              type="range"
+                              min="0"
+                              max={modelHeight}
+                              step="0.1"
+                              value={levelHeight}
+                              onChange={(e) => setTerraceHeight(level, parseFloat(e.target.value))}
+                              className="flex-1"
+                            />
+                            <span className="text-xs text-gray-600 w-12 text-right">{levelHeight.toFixed(1)}mm</span>
+                          </div>
+                        );
+                      })}
+                      
+                      <p className="text-xs text-gray-400">
+                        💡 颜色由暗到亮排列，每一级高度变化处都会应用当前边缘类型
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* 原图灰度浮雕 */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    灰度浮雕
+                  </label>
+                  <select
+                    value={luminanceRelief.blendMode}
+                    onChange={(e) => updateLuminanceRelief({ blendMode: e.target.value as ReliefBlendMode })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="none">不使用（仅边缘剖面）</option>
+                    <option value="multiply">相乘（剖面按比例压低灰度）</option>
+                    <option value="min">取较低者</option>
+                    <option value="add">叠加（超出满高度截断）</option>
+                    <option value="addScaled">叠加后缩放（剖面整体降低，保留内部灰度）</option>
+                  </select>
+                  
+                  {luminanceRelief.blendMode !== 'none' && (
+                    <div className="space-y-3 mt-3">
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">
+                          伽马: {luminanceRelief.gamma.toFixed(1)}
+                        </label>
+                        <input
+                          type="range"
+                          min="0.2"
+                          max="3"
+                          step="0.1"
+                          value={luminanceRelief.gamma}
+                          onChange={(e) => updateLuminanceRelief({ gamma: parseFloat(e.target.value) })}
+                          className="w-full"
+                        />
+                      </div>
+                      
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">
+                          {reliefRangeLabel('最暗处', luminanceRelief.rangeMin)}
+                        </label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="1"
+                          step="0.05"
+                          value={luminanceRelief.rangeMin}
+                          onChange={(e) => updateLuminanceRelief({ rangeMin: parseFloat(e.target.value) })}
+                          className="w-full"
+                        />
+                      </div>
+                      
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">
+                          {reliefRangeLabel('最亮处', luminanceRelief.rangeMax)}
+                        </label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="1"
+                          step="0.05"
+                          value={luminanceRelief.rangeMax}
+                          onChange={(e) => updateLuminanceRelief({ rangeMax: parseFloat(e.target.value) })}
+                          className="w-full"
+                        />
+                      </div>
+                      
+                      <label className="flex items-center cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={luminanceRelief.invert}
+                          onChange={(e) => updateLuminanceRelief({ invert: e.target.checked })}
+                          className="form-checkbox h-4 w-4 text-blue-600 rounded"
+                        />
+                        <span className="ml-2 text-sm text-gray-700">反转（黑色最高）</span>
+                      </label>
+                    </div>
+                  )}
+                  
+                  <p className="text-xs text-gray-400 mt-1">
+                    💡 原图亮度在形状内部映射为高度，白色最高、黑色最低
+                  </p>
+                </div>
+
+                {/* 轮廓透明度 */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    轮廓透明度阈值: {contourAlpha}
+                  </label>
+                  <input
+                    type="range"
+                    min="1"
+                    max="255"
+                    step="1"
+                    value={contourAlpha}
+                    onChange={(e) => setContourAlpha(parseInt(e.target.value))}
+                    className="w-full"
+                  />
+                  <div className="flex justify-between text-xs text-gray-500 mt-1">
+                    <span>1（外扩）</span>
+                    <span>255（内缩）</span>
+                  </div>
+                  <p className="text-xs text-gray-400 mt-1">
+                    💡 在抗锯齿边缘上按该透明度插值出亚像素轮廓，128 为边缘覆盖一半的位置
+                  </p>
+                </div>
+
+                {/* 成型方式 */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    成型方式
+                  </label>
+                  <select
+                    value={reliefMode}
+                    onChange={(e) => setReliefMode(e.target.value as ReliefMode)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="raised">浮雕（凸起）</option>
+                    <option value="engrave">雕刻（凹陷）</option>
+                  </select>
+                  <label className="flex items-center cursor-pointer mt-2">
+                    <input
+                      type="checkbox"
+                      checked={mirrored}
+                      onChange={(e) => setMirrored(e.target.checked)}
+                      className="form-checkbox h-4 w-4 text-blue-600 rounded"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">水平镜像（印章）</span>
+                  </label>
+                  {reliefMode === 'engrave' && (
+                    <div className="mt-3">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        块体厚度 (mm): {Math.max(blockThickness, modelHeight + 0.5).toFixed(1)}
+                      </label>
+                      <input
+                        type="range"
+                        min="1"
+                        max="10"
+                        step="0.1"
+                        value={blockThickness}
+                        onChange={(e) => setBlockThickness(parseFloat(e.target.value))}
+                        className="w-full"
+                      />
+                      <div className="flex justify-between text-xs text-gray-500 mt-1">
+                        <span>1mm</span>
+                        <span>10mm</span>
+                      </div>
+                      <p className="text-xs text-gray-400 mt-1">
+                        💡 形状以模型高度为槽深刻入块体，边缘剖面作用在槽壁上；块体至少比槽深厚0.5mm
+                      </p>
+                    </div>
+                  )}
+                </div>
+
                 {/* 模型高度 */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    模型高度 (mm): {modelHeight}
+                    {reliefMode === 'engrave' ? '雕刻深度' : '模型高度'} (mm): {modelHeight}
                   </label>
                   <input
                     type="range"
@@ -430,6 +1337,352 @@ function App() {
                   </p>
                 </div>
                 
+                {/* 物理尺寸 */}
+                <div className="border-t border-gray-200 pt-4 mt-4">
+                  <h3 className="text-sm font-semibold text-gray-900 mb-3">成品尺寸</h3>
+                  
+                  <select
+                    value={physicalSize.mode}
+                    onChange={(e) => setPhysicalSize({ ...physicalSize, mode: e.target.value as PhysicalSizeSettings['mode'] })}
+                    className="w-full px-3 py-2 mb-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="dpi">按图像DPI换算</option>
+                    <option value="width">指定宽度 (mm)</option>
+                    <option value="height">指定高度 (mm)</option>
+                  </select>
+                  
+                  {physicalSize.mode === 'dpi' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        图像DPI
+                      </label>
+                      <input
+                        type="number"
+                        min="10"
+                        max="4800"
+                        step="1"
+                        value={Math.round(physicalSize.dpi)}
+                        onChange={(e) => setPhysicalSize({ ...physicalSize, dpi: parseFloat(e.target.value) || DEFAULT_DPI })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <p className="text-xs text-gray-400 mt-1">
+                        {fileDPI ? `📄 已从文件读取: ${fileDPI.toFixed(0)} DPI` : `📄 文件未记录DPI，默认 ${DEFAULT_DPI} DPI`}
+                      </p>
+                    </div>
+                  )}
+                  
+                  {physicalSize.mode === 'width' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        成品宽度 (mm)
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="2000"
+                        step="0.5"
+                        value={physicalSize.widthMm}
+                        onChange={(e) => setPhysicalSize({ ...physicalSize, widthMm: parseFloat(e.target.value) || 1 })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+                  
+                  {physicalSize.mode === 'height' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        成品高度 (mm)
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        max="2000"
+                        step="0.5"
+                        value={physicalSize.heightMm}
+                        onChange={(e) => setPhysicalSize({ ...physicalSize, heightMm: parseFloat(e.target.value) || 1 })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+                  
+                  {originalImageData && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      📏 {(originalImageData.width * mmPerPixel).toFixed(1)} × {(originalImageData.height * mmPerPixel).toFixed(1)} mm
+                      {` • ${mmPerPixelToDPI(mmPerPixel).toFixed(0)} DPI • ${mmPerPixel.toFixed(3)} mm/像素`}
+                    </p>
+                  )}
+                </div>
+                
+                {/* 底板 */}
+                <div className="border-t border-gray-200 pt-4 mt-4">
+                  <label className="flex items-center cursor-pointer mb-3">
+                    <input
+                      type="checkbox"
+                      checked={basePlate.enabled}
+                      onChange={(e) => updateBasePlate({ enabled: e.target.checked })}
+                      className="form-checkbox h-4 w-4 text-blue-600 rounded"
+                    />
+                    <span className="ml-2 text-sm font-semibold text-gray-900">底板</span>
+                  </label>
+                  
+                  {basePlate.enabled && (
+                    <div className="space-y-3">
+                      <select
+                        value={basePlate.shape}
+                        onChange={(e) => updateBasePlate({ shape: e.target.value as BasePlateShape })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {(Object.keys(BASE_PLATE_SHAPE_LABELS) as BasePlateShape[]).map(shape => (
+                          <option key={shape} value={shape}>{BASE_PLATE_SHAPE_LABELS[shape]}</option>
+                        ))}
+                      </select>
+                      
+                      {reliefMode === 'raised' && (
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">
+                            底板厚度: {basePlate.thickness.toFixed(1)}mm
+                          </label>
+                          <input
+                            type="range"
+                            min="0.5"
+                            max="10"
+                            step="0.1"
+                            value={basePlate.thickness}
+                            onChange={(e) => updateBasePlate({ thickness: parseFloat(e.target.value) })}
+                            className="w-full"
+                          />
+                        </div>
+                      )}
+                      
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">
+                          {basePlate.shape === 'contour' ? '外扩距离' : '边距'}: {basePlate.margin.toFixed(1)}mm
+                        </label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="30"
+                          step="0.5"
+                          value={basePlate.margin}
+                          onChange={(e) => updateBasePlate({ margin: parseFloat(e.target.value) })}
+                          className="w-full"
+                        />
+                      </div>
+                      
+                      {basePlate.shape === 'rounded' && (
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">
+                            圆角半径: {basePlate.cornerRadius.toFixed(1)}mm
+                          </label>
+                          <input
+                            type="range"
+                            min="0.5"
+                            max="30"
+                            step="0.5"
+                            value={basePlate.cornerRadius}
+                            onChange={(e) => updateBasePlate({ cornerRadius: parseFloat(e.target.value) })}
+                            className="w-full"
+                          />
+                        </div>
+                      )}
+                      
+                      <div>
+                        <label className="block text-xs text-gray-600 mb-1">
+                          凸起边框: {basePlate.borderWidth > 0 ? `宽 ${basePlate.borderWidth.toFixed(1)}mm` : '无'}
+                        </label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="10"
+                          step="0.5"
+                          value={basePlate.borderWidth}
+                          onChange={(e) => updateBasePlate({ borderWidth: parseFloat(e.target.value) })}
+                          className="w-full"
+                        />
+                      </div>
+                      
+                      {basePlate.borderWidth > 0 && (
+                        <div>
+                          <label className="block text-xs text-gray-600 mb-1">
+                            边框高度: {basePlate.borderHeight.toFixed(1)}mm
+                          </label>
+                          <input
+                            type="range"
+                            min="0.2"
+                            max="5"
+                            step="0.1"
+                            value={basePlate.borderHeight}
+                            onChange={(e) => updateBasePlate({ borderHeight: parseFloat(e.target.value) })}
+                            className="w-full"
+                          />
+                        </div>
+                      )}
+                      
+                      {/* 安装孔 */}
+                      <div>
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-xs text-gray-600">安装孔</span>
+                          <div className="space-x-2">
+                            {(Object.keys(MOUNTING_HOLE_LABELS) as MountingHoleType[]).map(type => (
+                              <button
+                                key={type}
+                                type="button"
+                                onClick={() => updateBasePlate({ holes: [...basePlate.holes, { type, x: 0, y: 0 }] })}
+                                className="text-xs text-blue-600 hover:text-blue-800"
+                              >
+                                + {MOUNTING_HOLE_LABELS[type]}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                        
+                        {basePlate.holes.map((hole, index) => (
+                          <div key={index} className="flex items-center space-x-2 mb-1">
+                            <span className="text-xs text-gray-700 w-16 flex-shrink-0">{MOUNTING_HOLE_LABELS[hole.type]}</span>
+                            <input
+                              type="number"
+                              step="0.5"
+                              value={hole.x}
+                              onChange={(e) => updateMountingHole(index, { x: parseFloat(e.target.value) || 0 })}
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+                              title="X (mm)，相对底板中心向右"
+                            />
+                            <input
+                              type="number"
+                              step="0.5"
+                              value={hole.y}
+                              onChange={(e) => updateMountingHole(index, { y: parseFloat(e.target.value) || 0 })}
+                              className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
+                              title="Y (mm)，相对底板中心向上"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => updateBasePlate({ holes: basePlate.holes.filter((_, i) => i !== index) })}
+                              className="text-xs text-red-500 hover:text-red-700"
+                            >
+                              删除
+                            </button>
+                          </div>
+                        ))}
+                        
+                        {basePlate.holes.some(hole => hole.type === 'screw') && (
+                          <div className="mt-2">
+                            <label className="block text-xs text-gray-600 mb-1">
+                              螺丝孔直径: {basePlate.screwDiameter.toFixed(1)}mm
+                            </label>
+                            <input
+                              type="range"
+                              min="1"
+                              max="10"
+                              step="0.1"
+                              value={basePlate.screwDiameter}
+                              onChange={(e) => updateBasePlate({ screwDiameter: parseFloat(e.target.value) })}
+                              className="w-full"
+                            />
+                          </div>
+                        )}
+                        
+                        {basePlate.holes.some(hole => hole.type === 'keyhole') && (
+                          <div className="mt-2 space-y-2">
+                            <div>
+                              <label className="block text-xs text-gray-600 mb-1">
+                                钥匙孔大圆直径: {basePlate.keyholeHeadDiameter.toFixed(1)}mm
+                              </label>
+                              <input
+                                type="range"
+                                min="3"
+                                max="15"
+                                step="0.1"
+                                value={basePlate.keyholeHeadDiameter}
+                                onChange={(e) => updateBasePlate({ keyholeHeadDiameter: parseFloat(e.target.value) })}
+                                className="w-full"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs text-gray-600 mb-1">
+                                窄槽宽度: {basePlate.keyholeSlotWidth.toFixed(1)}mm
+                              </label>
+                              <input
+                                type="range"
+                                min="1"
+                                max="10"
+                                step="0.1"
+                                value={basePlate.keyholeSlotWidth}
+                                onChange={(e) => updateBasePlate({ keyholeSlotWidth: parseFloat(e.target.value) })}
+                                className="w-full"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs text-gray-600 mb-1">
+                                窄槽长度: {basePlate.keyholeSlotLength.toFixed(1)}mm
+                              </label>
+                              <input
+                                type="range"
+                                min="2"
+                                max="20"
+                                step="0.5"
+                                value={basePlate.keyholeSlotLength}
+                                onChange={(e) => updateBasePlate({ keyholeSlotLength: parseFloat(e.target.value) })}
+                                className="w-full"
+                              />
+                            </div>
+                          </div>
+                        )}
+                        
+                        <p className="text-xs text-gray-400 mt-1">
+                          💡 位置为相对底板中心的 X / Y (mm)，孔洞同时切穿底板和浮雕；钥匙孔的窄槽朝上
+                        </p>
+                      </div>
+                      
+                      {reliefMode === 'engrave' && (
+                        <p className="text-xs text-gray-400">
+                          💡 雕刻模式下底板即块体，厚度使用块体厚度
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+                
+                {/* 网格简化 */}
+                <div className="border-t border-gray-200 pt-4 mt-4">
+                  <h3 className="text-sm font-semibold text-gray-900 mb-3">网格简化</h3>
+                  
+                  <label className="flex items-center cursor-pointer mb-3">
+                    <input
+                      type="checkbox"
+                      checked={simplifyMesh}
+                      onChange={(e) => setSimplifyMesh(e.target.checked)}
+                      className="form-checkbox h-4 w-4 text-blue-600 rounded"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">自适应网格简化</span>
+                  </label>
+                  
+                  {simplifyMesh && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        允许误差 (mm): {simplifyTolerance.toFixed(3)}
+                      </label>
+                      <input
+                        type="range"
+                        min="0.001"
+                        max="0.1"
+                        step="0.001"
+                        value={simplifyTolerance}
+                        onChange={(e) => setSimplifyTolerance(parseFloat(e.target.value))}
+                        className="w-full"
+                      />
+                      <div className="flex justify-between text-xs text-gray-500 mt-1">
+                        <span>0.001mm</span>
+                        <span>0.1mm</span>
+                      </div>
+                    </div>
+                  )}
+                  
+                  <p className="text-xs text-gray-400 mt-1">
+                    🔺 平坦的顶面和底面合并为大三角形，轮廓和曲面剖面处保留全部细节；预览和导出使用同一网格
+                  </p>
+                </div>
+                
                 {/* DPI优化设置 */}
                 <div className="border-t border-gray-200 pt-4 mt-4">
                   <h3 className="text-sm font-semibold text-gray-900 mb-3">深度图DPI优化</h3>
@@ -551,6 +1804,11 @@ function App() {
                     <p className="text-gray-600">
                       {isDebouncing ? '准备处理图像...' : '正在处理图像...'}
                     </p>
+                    {!isDebouncing && processingStage && (
+                      <p className="text-xs text-gray-400 mt-1">
+                        {PROCESSING_STAGE_LABELS[processingStage]}
+                      </p>
+                    )}
                   </div>
                 </div>
               ) : processedImages ? (
@@ -560,17 +1818,29 @@ function App() {
                     <p className="font-medium text-gray-900">{selectedFile?.name}</p>
                     <p className="text-xs text-gray-500">
                       {processedImages.width}×{processedImages.height} • 
-                      {edgeType === 'vertical' ? '垂直' : edgeType === 'rounded' ? '圆角' : '切角'}边缘
-                      {edgeType !== 'vertical' && ` • 边缘宽度: ${edgeWidth}px`}
+                      {EDGE_TYPE_LABELS[edgeType]}
+                      {edgeType !== 'vertical' && ` • 边缘宽度: ${edgeWidth}mm`}
                       {edgeType === 'chamfered' && ` • 角度: ${chamferAngle}°`}
+                      {edgeType === 'rounded' && roundedVerticalRadius !== null && ` • 竖直半径: ${roundedVerticalRadius}mm`}
+                      {edgeType === 'ogee' && ` • 拐点: ${Math.round(ogeeBalance * 100)}%`}
+                      {edgeType === 'bead' && ` • 台阶: ${Math.round(beadFilletRatio * 100)}%`}
+                      {edgeType === 'stepped' && ` • ${stepCount}级`}
+                      {holeEdge.enabled && ` • 孔洞: ${EDGE_TYPE_LABELS[holeEdge.edgeType]}${holeEdge.edgeType !== 'vertical' ? ` ${holeEdge.edgeWidth}mm` : ''}`}
+                      {terraces.enabled && ` • 分${terraces.levelCount}层`}
                       {` • 高度: ${modelHeight}mm`}
+                      {` • 尺寸: ${(processedImages.width * processedImages.mmPerPixel).toFixed(1)}×${(processedImages.height * processedImages.mmPerPixel).toFixed(1)}mm`}
                     </p>
-                    {enableDPIOptimization && (
+                    {heightMap && (
+                      <p className="text-xs text-purple-600 mt-1">
+                        📐 16位灰度高度图: 直接作为深度图，边缘类型、平滑和DPI优化不适用
+                      </p>
+                    )}
+                    {enableDPIOptimization && !heightMap && (
                       <p className="text-xs text-blue-600 mt-1">
                         🔍 DPI优化: 目标 {targetDPI} DPI • 物理尺寸保持不变
                       </p>
                     )}
-                    {enableEdgeSmoothing && (
+                    {enableEdgeSmoothing && !heightMap && (
                       <p className="text-xs text-green-600 mt-1">
                         🎯 边缘平滑: {Math.round(smoothingStrength * 100)}% 强度 • 专治锯齿边缘
                       </p>
@@ -631,7 +1901,19 @@ function App() {
                       >
                         下载深度图
                       </button>
-                      {enableDPIOptimization && (
+                      <div className="mt-1 flex justify-center gap-2">
+                        {(Object.keys(DEPTH_MAP_FORMAT_LABELS) as DepthMapFormat[]).map(format => (
+                          <button
+                            key={format}
+                            onClick={() => handleDepthMapDownload(format)}
+                            className="text-xs text-blue-600 hover:text-blue-800"
+                            title="高精度深度图，不受8位灰度的256级限制"
+                          >
+                            {DEPTH_MAP_FORMAT_LABELS[format]}
+                          </button>
+                        ))}
+                      </div>
+                      {enableDPIOptimization && !heightMap && (
                         <p className="text-xs text-green-600 mt-1">
                           ✨ 已优化至 {targetDPI} DPI
                         </p>
@@ -650,7 +1932,7 @@ function App() {
             </div>
 
             {/* 3D模型显示区域 */}
-            {processedImages && !isProcessing && !isDebouncing && (
+            {processedImages && meshOptions && !isProcessing && !isDebouncing && (
               <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
                 <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
                   <span className="mr-2">🎯</span>
@@ -662,17 +1944,21 @@ function App() {
                 
                 <DepthMap3DViewer
                   key="3d-viewer" // 稳定的key，避免重新挂载
-                  depthMapUrl={processedImages.depthMap}
+                  depthMap={processedImages.depthMapData}
+                  meshOptions={meshOptions}
                   modelHeight={modelHeight}
                   width={processedImages.width} // 高分辨率尺寸
                   height={processedImages.height} // 高分辨率尺寸
-                  originalWidth={processedImages.originalWidth} // 原始物理尺寸
-                  originalHeight={processedImages.originalHeight} // 原始物理尺寸
                   initialCameraState={cameraState}
                   onCameraStateChange={handleCameraStateChange}
                   edgeType={edgeType}
                   edgeWidth={edgeWidth}
                   chamferAngle={chamferAngle}
+                  roundedVerticalRadius={roundedVerticalRadius}
+                  ogeeBalance={ogeeBalance}
+                  beadFilletRatio={beadFilletRatio}
+                  stepCount={stepCount}
+                  profileCurve={profileCurve}
                   enableDPIOptimization={enableDPIOptimization}
                   targetDPI={targetDPI}
                   enableEdgeSmoothing={enableEdgeSmoothing}
@@ -682,15 +1968,264 @@ function App() {
                   onParameterChange={handleParameterChange}
                   isFullscreen={is3DFullscreen}
                   onFullscreenToggle={handle3DFullscreenToggle}
+                  toolpath={showToolpath ? toolpath : null}
                 />
                 
+                <div className="mt-4 flex items-center justify-center space-x-3">
+                  <select
+                    value={exportFormat}
+                    onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {Object.entries(EXPORT_FORMAT_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleExport}
+                    className="px-4 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md"
+                  >
+                    导出模型
+                  </button>
+                </div>
+                
                 <div className="mt-4 text-center">
                   <p className="text-xs text-gray-500">
-                    💡 拖拽调整高度参数可实时更新3D模型效果
+                    💡 拖拽调整高度参数可实时更新3D模型效果，导出的模型与预览完全一致
                   </p>
                 </div>
               </div>
             )}
+
+            {/* CNC刀路 */}
+            {processedImages && meshOptions && !isProcessing && !isDebouncing && (
+              <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                  <span className="mr-2">🛠️</span>
+                  CNC刀路 (G代码)
+                  <span className="text-sm text-gray-500 ml-2 font-normal">
+                    (光栅精加工，GRBL兼容)
+                  </span>
+                </h2>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">刀具</label>
+                    <select
+                      value={toolpathOptions.toolShape}
+                      onChange={(e) => updateToolpathOptions({ toolShape: e.target.value as ToolShape })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {(Object.keys(TOOL_SHAPE_LABELS) as ToolShape[]).map(shape => (
+                        <option key={shape} value={shape}>{TOOL_SHAPE_LABELS[shape]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">刀具直径 (mm)</label>
+                    <input
+                      type="number"
+                      min="0.1"
+                      max="25"
+                      step="0.1"
+                      value={toolpathOptions.toolDiameter}
+                      onChange={(e) => updateToolpathOptions({ toolDiameter: parseFloat(e.target.value) || DEFAULT_TOOLPATH_OPTIONS.toolDiameter })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  {toolpathOptions.toolShape === 'vbit' && (
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">V刀夹角 (°)</label>
+                      <input
+                        type="number"
+                        min="10"
+                        max="170"
+                        step="5"
+                        value={toolpathOptions.vBitAngle}
+                        onChange={(e) => updateToolpathOptions({ vBitAngle: parseFloat(e.target.value) || DEFAULT_TOOLPATH_OPTIONS.vBitAngle })}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">切削方向</label>
+                    <select
+                      value={toolpathOptions.direction}
+                      onChange={(e) => updateToolpathOptions({ direction: e.target.value as RasterDirection })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {(Object.keys(RASTER_DIRECTION_LABELS) as RasterDirection[]).map(direction => (
+                        <option key={direction} value={direction}>{RASTER_DIRECTION_LABELS[direction]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">行距 (mm)</label>
+                    <input
+                      type="number"
+                      min="0.01"
+                      max="10"
+                      step="0.01"
+                      value={toolpathOptions.stepover}
+                      onChange={(e) => updateToolpathOptions({ stepover: parseFloat(e.target.value) || DEFAULT_TOOLPATH_OPTIONS.stepover })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">采样间距 (mm)</label>
+                    <input
+                      type="number"
+                      min="0.01"
+                      max="1"
+                      step="0.01"
+                      value={toolpathOptions.resolution}
+                      onChange={(e) => updateToolpathOptions({ resolution: parseFloat(e.target.value) || DEFAULT_TOOLPATH_OPTIONS.resolution })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">切削进给 (mm/min)</label>
+                    <input
+                      type="number"
+                      min="10"
+                      max="20000"
+                      step="10"
+                      value={gcodeOptions.feedRate}
+                      onChange={(e) => updateGCodeOptions({ feedRate: parseFloat(e.target.value) || DEFAULT_GCODE_OPTIONS.feedRate })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">下刀进给 (mm/min)</label>
+                    <input
+                      type="number"
+                      min="10"
+                      max="5000"
+                      step="10"
+                      value={gcodeOptions.plungeRate}
+                      onChange={(e) => updateGCodeOptions({ plungeRate: parseFloat(e.target.value) || DEFAULT_GCODE_OPTIONS.plungeRate })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">主轴转速 (RPM)</label>
+                    <input
+                      type="number"
+                      min="100"
+                      max="60000"
+                      step="100"
+                      value={gcodeOptions.spindleSpeed}
+                      onChange={(e) => updateGCodeOptions({ spindleSpeed: parseFloat(e.target.value) || DEFAULT_GCODE_OPTIONS.spindleSpeed })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">安全高度 (mm)</label>
+                    <input
+                      type="number"
+                      min="0.5"
+                      max="50"
+                      step="0.5"
+                      value={gcodeOptions.safeZ}
+                      onChange={(e) => updateGCodeOptions({ safeZ: parseFloat(e.target.value) || DEFAULT_GCODE_OPTIONS.safeZ })}
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+
+                <label className="flex items-center cursor-pointer mt-4 mb-3">
+                  <input
+                    type="checkbox"
+                    checked={toolpathOptions.roughing}
+                    onChange={(e) => updateToolpathOptions({ roughing: e.target.checked })}
+                    className="form-checkbox h-4 w-4 text-blue-600 rounded"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">精加工前分层粗加工</span>
+                </label>
+
+                {toolpathOptions.roughing && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">每层深度 (mm)</label>
+                      <input
+                        type="number"
+                        min="0.05"
+                        max="10"
+                        step="0.05"
+                        value={toolpathOptions.stepdown}
+                        onChange={(e) => updateToolpathOptions({ stepdown: parseFloat(e.target.value) || DEFAULT_TOOLPATH_OPTIONS.stepdown })}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">精加工余量 (mm)</label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="2"
+                        step="0.05"
+                        value={toolpathOptions.stockToLeave}
+                        onChange={(e) => updateToolpathOptions({ stockToLeave: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="mt-4 flex items-center justify-center space-x-3">
+                  <button
+                    onClick={isGeneratingToolpath ? handleCancelToolpath : handleGenerateToolpath}
+                    className="px-4 py-1.5 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 border border-blue-200 rounded-md disabled:opacity-50"
+                  >
+                    {isGeneratingToolpath ? '生成中...（点击取消）' : '生成刀路'}
+                  </button>
+                  <button
+                    onClick={handleExportGCode}
+                    disabled={!toolpath}
+                    className="px-4 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50"
+                  >
+                    导出G代码
+                  </button>
+                  <label className="flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={showToolpath}
+                      onChange={(e) => setShowToolpath(e.target.checked)}
+                      className="form-checkbox h-4 w-4 text-blue-600 rounded"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">在3D预览中显示</span>
+                  </label>
+                </div>
+
+                {toolpath && (
+                  <p className="text-xs text-gray-600 text-center mt-3">
+                    毛坯 {toolpath.width.toFixed(1)}×{toolpath.height.toFixed(1)}×{toolpath.stockTop.toFixed(2)}mm •
+                    切削长度 {(toolpath.cuttingLength / 1000).toFixed(1)}m •
+                    预计 {Math.ceil(toolpath.cuttingLength / gcodeOptions.feedRate)} 分钟（不含抬刀）
+                  </p>
+                )}
+
+                <p className="text-xs text-gray-400 text-center mt-2">
+                  💡 XY原点为左下角，Z0为毛坯顶面（浮雕最高点）；刀具补偿保证不过切，刀具进不去的窄槽和内角会留下余料
+                </p>
+              </div>
+            )}
+
+            {/* 印章盖印预览 */}
+            {processedImages && meshOptions && !isProcessing && !isDebouncing && (
+              <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                  <span className="mr-2">🖋️</span>
+                  印章盖印预览
+                  <span className="text-sm text-gray-500 ml-2 font-normal">
+                    ({mirrored ? '已镜像' : '未镜像'})
+                  </span>
+                </h2>
+                <div className="max-w-md mx-auto">
+                  <StampPrintPreview depthMap={processedImages.depthMapData} meshOptions={meshOptions} />
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -2,31 +2,54 @@ import React, { useMemo, useRef, useState, useEffect } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Environment } from '@react-three/drei';
 import * as THREE from 'three';
+import { buildReliefMesh, HeightFieldOptions, SolidMesh } from '../utils/meshBuilder';
+import type { DepthField } from '../utils/depthField';
+import type { Toolpath } from '../utils/toolpath';
+import { computeHeightColors, PREVIEW_MATERIAL } from '../utils/meshAttributes';
+import { EdgeType } from '../utils/edgeProcessor';
+import { DEFAULT_PROFILE_CURVE, ProfileCurve } from '../utils/profileCurve';
+import { ProfileCurveEditor } from './ProfileCurveEditor';
+
+interface MeshStats {
+  triangles: number;
+  savedTriangles: number; // 自适应简化省去的三角形数量
+}
 
 interface DepthMap3DViewerProps {
-  depthMapUrl: string;
+  depthMap: DepthField; // 与导出共用的深度图
+  meshOptions: HeightFieldOptions; // 与导出共用的建模参数
   modelHeight: number;
   width: number; // 高分辨率图像尺寸
   height: number; // 高分辨率图像尺寸
-  originalWidth?: number; // 原始物理尺寸
-  originalHeight?: number; // 原始物理尺寸
   quality?: 'low' | 'medium' | 'high' | 'ultra'; // 新增质量选项
   initialCameraState?: {
     position: [number, number, number];
     target: [number, number, number];
   } | null;
   onCameraStateChange?: (newState: { position: [number, number, number]; target: [number, number, number] }) => void;
+  onMeshStats?: (stats: MeshStats) => void; // 预览网格生成后回报三角形数量
+  toolpath?: Toolpath | null; // 叠加显示在模型上的CNC刀路
   
   // 全屏参数面板相关props
-  edgeType?: 'vertical' | 'rounded' | 'chamfered';
+  edgeType?: EdgeType;
   edgeWidth?: number;
   chamferAngle?: number;
+  roundedVerticalRadius?: number | null;
+  ogeeBalance?: number;
+  beadFilletRatio?: number;
+  stepCount?: number;
+  profileCurve?: ProfileCurve;
   isProcessing?: boolean;
   isDebouncing?: boolean;
   onParameterChange?: (params: {
-    edgeType?: 'vertical' | 'rounded' | 'chamfered';
+    edgeType?: EdgeType;
     edgeWidth?: number;
     chamferAngle?: number;
+    roundedVerticalRadius?: number | null;
+    ogeeBalance?: number;
+    beadFilletRatio?: number;
+    stepCount?: number;
+    profileCurve?: ProfileCurve;
     modelHeight?: number;
     enableDPIOptimization?: boolean;
     targetDPI?: number;
@@ -52,6 +75,11 @@ function FullscreenParameterPanel({
   edgeType, 
   edgeWidth, 
   chamferAngle, 
+  roundedVerticalRadius,
+  ogeeBalance,
+  beadFilletRatio,
+  stepCount,
+  profileCurve,
   modelHeight,
   enableDPIOptimization,
   targetDPI,
@@ -61,9 +89,14 @@ function FullscreenParameterPanel({
   isDebouncing,
   onParameterChange 
 }: {
-  edgeType: 'vertical' | 'rounded' | 'chamfered';
+  edgeType: EdgeType;
   edgeWidth: number;
   chamferAngle: number;
+  roundedVerticalRadius: number | null;
+  ogeeBalance: number;
+  beadFilletRatio: number;
+  stepCount: number;
+  profileCurve: ProfileCurve;
   modelHeight: number;
   enableDPIOptimization: boolean;
   targetDPI: number;
@@ -105,13 +138,18 @@ function FullscreenParameterPanel({
           <label className="block text-sm font-medium text-gray-700 mb-2">边缘类型</label>
           <select
             value={edgeType}
-            onChange={(e) => onParameterChange({ edgeType: e.target.value as 'vertical' | 'rounded' | 'chamfered' })}
+            onChange={(e) => onParameterChange({ edgeType: e.target.value as EdgeType })}
             className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             disabled={isProcessing || isDebouncing}
           >
             <option value="vertical">垂直边缘</option>
             <option value="rounded">圆角边缘</option>
             <option value="chamfered">切角边缘</option>
+            <option value="cove">凹圆线脚</option>
+            <option value="ogee">反曲线脚</option>
+            <option value="bead">圆珠线脚</option>
+            <option value="stepped">阶梯边缘</option>
+            <option value="custom">自定义剖面</option>
           </select>
         </div>
 
@@ -140,7 +178,7 @@ function FullscreenParameterPanel({
          {edgeType !== 'vertical' && (
            <div>
              <label className="block text-sm font-medium text-gray-700 mb-2">
-               边缘宽度: {tempEdgeWidth}px
+               边缘宽度: {tempEdgeWidth}mm
                {(isProcessing || isDebouncing) && (
                  <span className="text-xs text-orange-500 ml-2">
                    {isDebouncing ? '准备计算...' : '计算中...'}
@@ -149,19 +187,19 @@ function FullscreenParameterPanel({
              </label>
              <input
                type="range"
-               min="1"
-               max="100"
-               step="1"
+               min="0.1"
+               max="10"
+               step="0.1"
                value={tempEdgeWidth}
-               onChange={(e) => setTempEdgeWidth(parseInt(e.target.value))}
+               onChange={(e) => setTempEdgeWidth(parseFloat(e.target.value))}
                onMouseUp={() => onParameterChange({ edgeWidth: tempEdgeWidth })}
                onTouchEnd={() => onParameterChange({ edgeWidth: tempEdgeWidth })}
                className="w-full"
                disabled={isProcessing || isDebouncing}
              />
              <div className="flex justify-between text-xs text-gray-500 mt-1">
-               <span>1px</span>
-               <span>100px</span>
+               <span>0.1mm</span>
+               <span>10mm</span>
              </div>
              <p className="text-xs text-gray-400 mt-1">
                💡 拖拽时实时预览，松开鼠标后生效
@@ -202,6 +240,108 @@ function FullscreenParameterPanel({
           </div>
         )}
 
+        {/* 圆角竖直半径 */}
+        {edgeType === 'rounded' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              竖直半径: {roundedVerticalRadius ?? modelHeight}mm
+            </label>
+            <div className="flex items-center space-x-3 mb-2">
+              <label className="flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={roundedVerticalRadius === null}
+                  onChange={(e) => onParameterChange({ roundedVerticalRadius: e.target.checked ? null : modelHeight })}
+                  className="form-checkbox h-4 w-4 text-blue-600 rounded"
+                  disabled={isProcessing || isDebouncing}
+                />
+                <span className="ml-2 text-sm text-gray-700">等于模型高度</span>
+              </label>
+            </div>
+            {roundedVerticalRadius !== null && (
+              <input
+                type="range"
+                min="0.1"
+                max="5"
+                step="0.1"
+                value={roundedVerticalRadius}
+                onChange={(e) => onParameterChange({ roundedVerticalRadius: parseFloat(e.target.value) })}
+                className="w-full"
+                disabled={isProcessing || isDebouncing}
+              />
+            )}
+          </div>
+        )}
+
+        {/* 反曲线拐点 */}
+        {edgeType === 'ogee' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              拐点位置: {Math.round(ogeeBalance * 100)}%
+            </label>
+            <input
+              type="range"
+              min="0.1"
+              max="0.9"
+              step="0.05"
+              value={ogeeBalance}
+              onChange={(e) => onParameterChange({ ogeeBalance: parseFloat(e.target.value) })}
+              className="w-full"
+              disabled={isProcessing || isDebouncing}
+            />
+          </div>
+        )}
+
+        {/* 圆珠线台阶 */}
+        {edgeType === 'bead' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              台阶高度: {Math.round(beadFilletRatio * 100)}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="0.6"
+              step="0.05"
+              value={beadFilletRatio}
+              onChange={(e) => onParameterChange({ beadFilletRatio: parseFloat(e.target.value) })}
+              className="w-full"
+              disabled={isProcessing || isDebouncing}
+            />
+          </div>
+        )}
+
+        {/* 阶梯数 */}
+        {edgeType === 'stepped' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              台阶数: {stepCount}
+            </label>
+            <input
+              type="range"
+              min="2"
+              max="10"
+              step="1"
+              value={stepCount}
+              onChange={(e) => onParameterChange({ stepCount: parseInt(e.target.value) })}
+              className="w-full"
+              disabled={isProcessing || isDebouncing}
+            />
+          </div>
+        )}
+
+        {/* 自定义剖面曲线 */}
+        {edgeType === 'custom' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">剖面曲线</label>
+            <ProfileCurveEditor
+              curve={profileCurve}
+              onChange={(curve) => onParameterChange({ profileCurve: curve })}
+              disabled={isProcessing || isDebouncing}
+            />
+          </div>
+        )}
+
         {/* DPI优化设置 */}
         <div className="border-t border-gray-200 pt-4 mt-4">
           <h4 className="text-sm font-semibold text-gray-900 mb-3">深度图DPI优化</h4>
@@ -342,179 +482,32 @@ function FullscreenButton({ onToggleFullscreen, isFullscreen }: { onToggleFullsc
   );
 }
 
-// 精细3D模型组件 - 手动计算顶点位置
-function PreciseDepthMapModel({ depthMapUrl, modelHeight, width, height, originalWidth, originalHeight, quality = 'high' }: DepthMap3DViewerProps) {
+interface PreciseDepthMapModelProps {
+  geometry: THREE.BufferGeometry;
+  center: [number, number]; // 几何体居中前的中心点
+  meshOptions: HeightFieldOptions;
+  quality: 'low' | 'medium' | 'high' | 'ultra';
+  toolpath?: Toolpath | null;
+}
+
+// 精细3D模型组件 - 使用与导出相同的实体网格
+function PreciseDepthMapModel({ geometry, center, meshOptions, quality, toolpath }: PreciseDepthMapModelProps) {
   const meshRef = useRef<THREE.Mesh>(null);
-  const [imageData, setImageData] = React.useState<ImageData | null>(null);
   
-  // 加载深度图数据
-  React.useEffect(() => {
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-      
-      canvas.width = img.width;
-      canvas.height = img.height;
-      ctx.drawImage(img, 0, 0);
-      
-      const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      setImageData(data);
-    };
-    img.src = depthMapUrl;
-  }, [depthMapUrl]);
+  // 几何体更新时释放旧的GPU缓冲区
+  useEffect(() => {
+    return () => geometry.dispose();
+  }, [geometry]);
   
-  // 严格按照深度图创建几何体 - 完全重写
-  const geometry = useMemo(() => {
-    if (!imageData) return null;
-    
-    console.time('严格几何体生成');
-    
-    // 根据质量设置决定采样步长
-    const qualitySettings = {
-      low: { step: 8 },      // 每8个像素采样一次
-      medium: { step: 4 },   // 每4个像素采样一次  
-      high: { step: 2 },     // 每2个像素采样一次
-      ultra: { step: 1 }     // 每个像素都采样
-    };
-    
-    const step = qualitySettings[quality].step;
-    
-    // 计算实际的网格尺寸
-    const gridWidth = Math.ceil(width / step);
-    const gridHeight = Math.ceil(height / step);
-    
-    console.log(`严格模式: 原图${width}x${height}, 网格${gridWidth}x${gridHeight}, 步长${step}`);
-    
-    // 手动创建顶点数组
-    const vertices: number[] = [];
-    const faces: number[] = [];
-    const colors: number[] = [];
-    const normals: number[] = [];
-    
-    // 创建顶点网格，严格对应像素位置
-    for (let y = 0; y < gridHeight; y++) {
-      for (let x = 0; x < gridWidth; x++) {
-        // 对应的原图像素位置
-        const imgX = Math.min(x * step, width - 1);
-        const imgY = Math.min(y * step, height - 1);
-        const pixelIndex = (imgY * width + imgX) * 4;
-        
-        // 严格使用像素值
-        const r = imageData.data[pixelIndex];
-        // const g = imageData.data[pixelIndex + 1];
-        // const b = imageData.data[pixelIndex + 2];
-        const alpha = imageData.data[pixelIndex + 3];
-        
-        // 计算深度：使用灰度值或红色通道
-        const depth = (alpha > 32) ? (r / 255) : 0;
-        
-        // 计算3D坐标：使用原始物理尺寸映射
-        // 物理尺寸（使用原始尺寸，如果没有则使用当前尺寸）
-        const physicalWidth = originalWidth || width;
-        const physicalHeight = originalHeight || height;
-        const physicalScale = 10; // 基础缩放因子
-        
-        const worldX = (x / (gridWidth - 1) - 0.5) * physicalScale;
-        const worldY = ((gridHeight - 1 - y) / (gridHeight - 1) - 0.5) * physicalScale * (physicalHeight / physicalWidth);
-        const worldZ = depth * modelHeight * 0.05;
-        
-        vertices.push(worldX, worldY, worldZ);
-        
-        // 简单的颜色
-        const intensity = 0.7 + depth * 0.3;
-        colors.push(intensity, intensity * 0.95, intensity * 0.9);
-        
-        // 暂时设置向上的法线，稍后计算
-        normals.push(0, 0, 1);
-      }
-    }
-    
-    // 创建面（三角形）
-    for (let y = 0; y < gridHeight - 1; y++) {
-      for (let x = 0; x < gridWidth - 1; x++) {
-        const topLeft = y * gridWidth + x;
-        const topRight = y * gridWidth + (x + 1);
-        const bottomLeft = (y + 1) * gridWidth + x;
-        const bottomRight = (y + 1) * gridWidth + (x + 1);
-        
-        // 每个四边形创建两个三角形
-        faces.push(
-          topLeft, bottomLeft, topRight,
-          topRight, bottomLeft, bottomRight
-        );
-      }
-    }
-    
-    // 重新计算法线 - 严格基于实际几何
-    const normalArray = new Array(normals.length).fill(0);
-    
-    for (let i = 0; i < faces.length; i += 3) {
-      const i1 = faces[i] * 3;
-      const i2 = faces[i + 1] * 3;
-      const i3 = faces[i + 2] * 3;
-      
-      // 计算三角形的法线
-      const v1x = vertices[i2] - vertices[i1];
-      const v1y = vertices[i2 + 1] - vertices[i1 + 1];
-      const v1z = vertices[i2 + 2] - vertices[i1 + 2];
-      
-      const v2x = vertices[i3] - vertices[i1];
-      const v2y = vertices[i3 + 1] - vertices[i1 + 1];
-      const v2z = vertices[i3 + 2] - vertices[i1 + 2];
-      
-      // 叉积计算法线
-      const nx = v1y * v2z - v1z * v2y;
-      const ny = v1z * v2x - v1x * v2z;
-      const nz = v1x * v2y - v1y * v2x;
-      
-      const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
-      const nnx = length > 0 ? nx / length : 0;
-      const nny = length > 0 ? ny / length : 0;
-      const nnz = length > 0 ? nz / length : 1;
-      
-      // 累加到每个顶点
-      [faces[i], faces[i + 1], faces[i + 2]].forEach(vertexIndex => {
-        const idx = vertexIndex * 3;
-        normalArray[idx] += nnx;
-        normalArray[idx + 1] += nny;
-        normalArray[idx + 2] += nnz;
-      });
-    }
-    
-    // 标准化法线
-    for (let i = 0; i < normalArray.length; i += 3) {
-      const length = Math.sqrt(
-        normalArray[i] * normalArray[i] + 
-        normalArray[i + 1] * normalArray[i + 1] + 
-        normalArray[i + 2] * normalArray[i + 2]
-      );
-      
-      if (length > 0) {
-        normalArray[i] /= length;
-        normalArray[i + 1] /= length;
-        normalArray[i + 2] /= length;
-      } else {
-        normalArray[i] = 0;
-        normalArray[i + 1] = 0;
-        normalArray[i + 2] = 1;
-      }
-    }
-    
-    // 创建Three.js几何体
-    const geometry = new THREE.BufferGeometry();
-    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(vertices), 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(colors), 3));
-    geometry.setAttribute('normal', new THREE.BufferAttribute(new Float32Array(normalArray), 3));
-    geometry.setIndex(faces);
-    
-    console.timeEnd('严格几何体生成');
-    console.log(`创建了${vertices.length / 3}个顶点，${faces.length / 3}个三角形`);
-    
-    return geometry;
-  }, [imageData, modelHeight, width, height, originalWidth, originalHeight, quality]);
+  // 刀路与模型使用相同的网格坐标和居中平移
+  const toolpathGeometry = useMemo(
+    () => (toolpath ? createToolpathGeometry(toolpath, center) : null),
+    [toolpath, center]
+  );
+  
+  useEffect(() => {
+    return () => toolpathGeometry?.dispose();
+  }, [toolpathGeometry]);
   
   // 移除复杂的平滑算法，只保留核心功能
   
@@ -522,8 +515,8 @@ function PreciseDepthMapModel({ depthMapUrl, modelHeight, width, height, origina
   const material = useMemo(() => {
     return new THREE.MeshStandardMaterial({
       vertexColors: true,
-      metalness: 0.05, // 降低金属感
-      roughness: 0.4, // 增加粗糙度，减少反射
+      metalness: PREVIEW_MATERIAL.metalness, // 降低金属感
+      roughness: PREVIEW_MATERIAL.roughness, // 增加粗糙度，减少反射
       side: THREE.DoubleSide,
       envMapIntensity: 0.1, // 大幅降低环境反射
       flatShading: true, // 强制使用flat shading确保垂直边缘清晰
@@ -535,7 +528,7 @@ function PreciseDepthMapModel({ depthMapUrl, modelHeight, width, height, origina
     if (material) {
       material.needsUpdate = true;
     }
-  }, [modelHeight, material]);
+  }, [meshOptions, material]);
   
   // 移除动画，保持模型完全静止以便观察垂直度
   // useFrame((state) => {
@@ -545,35 +538,130 @@ function PreciseDepthMapModel({ depthMapUrl, modelHeight, width, height, origina
   //   }
   // });
   
-  if (!geometry) {
-    return (
-      <mesh rotation={[-Math.PI / 2, 0, 0]}>
-        <planeGeometry args={[10, 10 * (height / width), 32, 32]} />
-        <meshStandardMaterial color="#cccccc" />
-      </mesh>
-    );
-  }
-  
   return (
-    <mesh ref={meshRef} geometry={geometry} material={material} rotation={[-Math.PI / 2, 0, 0]} />
+    <group rotation={[-Math.PI / 2, 0, 0]}>
+      <mesh ref={meshRef} geometry={geometry} material={material} />
+      {toolpathGeometry && (
+        <lineSegments geometry={toolpathGeometry}>
+          <lineBasicMaterial vertexColors />
+        </lineSegments>
+      )}
+    </group>
   );
   }
 
+// 场景单位为毫米；相机、光源等默认值按10mm的模型设计，再按实际尺寸缩放
+const REFERENCE_MODEL_SIZE = 10;
+
+// 刀路颜色：粗加工橙色、精加工蓝色；刀路略微抬高，避免与模型表面互相遮挡
+const ROUGHING_COLOR = new THREE.Color('#f97316');
+const FINISHING_COLOR = new THREE.Color('#2563eb');
+const TOOLPATH_LIFT = 0.01;
+
+/**
+ * 将实体网格转换为Three.js几何体，水平居中，保持毫米单位
+ * 返回居中前的中心点，刀路叠加层按同样的平移对齐；size 为网格水平方向的最大尺寸，包含底板和雕刻块体
+ */
+function createGeometryFromMesh(mesh: SolidMesh): { geometry: THREE.BufferGeometry; center: [number, number]; size: number } {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(mesh.positions, 3));
+  geometry.setIndex(new THREE.BufferAttribute(mesh.indices, 1));
+  
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  
+  // 简单的颜色：越高越亮，OBJ/PLY导出使用相同的着色
+  geometry.setAttribute('color', new THREE.BufferAttribute(computeHeightColors(mesh.positions), 3));
+  geometry.computeVertexNormals();
+  
+  const center: [number, number] = [(box.min.x + box.max.x) / 2, (box.min.y + box.max.y) / 2];
+  geometry.translate(-center[0], -center[1], 0);
+  const size = Math.max(box.max.x - box.min.x, box.max.y - box.min.y);
+  
+  return { geometry, center, size };
+}
+
+/**
+ * 把刀路折线转换为线段几何体（刀尖轨迹），坐标与模型相同
+ */
+function createToolpathGeometry(toolpath: Toolpath, center: [number, number]): THREE.BufferGeometry {
+  let segmentCount = 0;
+  for (const pass of toolpath.passes) {
+    for (const segment of pass.segments) segmentCount += Math.max(0, segment.length / 3 - 1);
+  }
+  
+  const positions = new Float32Array(segmentCount * 6);
+  const colors = new Float32Array(segmentCount * 6);
+  let offset = 0;
+  
+  for (const pass of toolpath.passes) {
+    const color = pass.kind === 'roughing' ? ROUGHING_COLOR : FINISHING_COLOR;
+    for (const segment of pass.segments) {
+      for (let i = 3; i < segment.length; i += 3) {
+        for (const start of [i - 3, i]) {
+          positions[offset] = segment[start] - center[0];
+          positions[offset + 1] = segment[start + 1] - center[1];
+          positions[offset + 2] = segment[start + 2] + TOOLPATH_LIFT;
+          colors[offset] = color.r;
+          colors[offset + 1] = color.g;
+          colors[offset + 2] = color.b;
+          offset += 3;
+        }
+      }
+    }
+  }
+  
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  return geometry;
+}
+
 // 增强光照场景组件
 function EnhancedScene({ 
-  depthMapUrl, 
+  depthMap, 
+  meshOptions,
   modelHeight, 
-  width, 
-  height, 
-  originalWidth,
-  originalHeight,
   quality = 'high',
   initialCameraState,
-  onCameraStateChange 
+  onCameraStateChange,
+  onMeshStats,
+  toolpath
 }: DepthMap3DViewerProps) {
   const controlsRef = useRef<any>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera>(null);
   
+  // 与STL导出共用 buildReliefMesh，预览即所得；modelSize 取实际网格的范围（mm），底板边距和圆形底板都计算在内，用于缩放相机距离和参考网格
+  const { geometry, center, modelSize, stats } = useMemo(() => {
+    console.time('严格几何体生成');
+    
+    // 根据质量设置决定采样步长
+    const qualitySettings = {
+      low: { step: 8 },      // 每8个像素采样一次
+      medium: { step: 4 },   // 每4个像素采样一次  
+      high: { step: 2 },     // 每2个像素采样一次
+      ultra: { step: 1 }     // 每个像素都采样
+    };
+    
+    const step = qualitySettings[quality].step;
+    console.log(`严格模式: 原图${depthMap.width}x${depthMap.height}, 步长${step}`);
+    
+    const mesh = buildReliefMesh(depthMap, meshOptions, step);
+    const { geometry, center, size } = createGeometryFromMesh(mesh);
+    
+    console.timeEnd('严格几何体生成');
+    console.log(`创建了${mesh.positions.length / 3}个顶点，${mesh.indices.length / 3}个三角形`);
+    
+    return { geometry, center, modelSize: size, stats: { triangles: mesh.indices.length / 3, savedTriangles: mesh.savedTriangles } };
+  }, [depthMap, meshOptions, quality]);
+  
+  useEffect(() => {
+    onMeshStats?.(stats);
+  }, [stats, onMeshStats]);
+  
+  const sceneScale = modelSize / REFERENCE_MODEL_SIZE;
+  const gridSize = Math.max(10, Math.ceil(modelSize * 2 / 10) * 10); // 每格10mm
+  
   // 保存相机状态到父组件
   const saveCameraState = () => {
     if (controlsRef.current && cameraRef.current && onCameraStateChange) {
@@ -602,7 +690,7 @@ function EnhancedScene({
   };
   
   // 初始化相机位置
-  const defaultPosition: [number, number, number] = initialCameraState?.position || [8, 15, 12];
+  const defaultPosition: [number, number, number] = initialCameraState?.position || [8 * sceneScale, 15 * sceneScale, 12 * sceneScale];
   const defaultTarget: [number, number, number] = initialCameraState?.target || [0, 0, 0];
   
   // 在组件挂载后恢复相机状态
@@ -644,8 +732,8 @@ function EnhancedScene({
         enableRotate={true}
         maxPolarAngle={Math.PI / 1.8}
         minPolarAngle={Math.PI / 8}
-        minDistance={1}
-        maxDistance={100}
+        minDistance={sceneScale}
+        maxDistance={100 * sceneScale}
         target={defaultTarget}
         enableDamping={true}
         dampingFactor={0.05}
@@ -669,7 +757,7 @@ function EnhancedScene({
       
       {/* 只在高质量模式下添加补充光源 */}
       {quality !== 'low' && (
-        <pointLight position={[0, 5, 5]} intensity={0.4} color="#e6f3ff" />
+        <pointLight position={[0, 5 * sceneScale, 5 * sceneScale]} intensity={0.4} color="#e6f3ff" />
       )}
       
       {/* 只在超高质量模式下使用环境贴图 */}
@@ -679,24 +767,22 @@ function EnhancedScene({
       
       {/* 3D模型 */}
       <PreciseDepthMapModel 
-        depthMapUrl={depthMapUrl}
-        modelHeight={modelHeight}
-        width={width}
-        height={height}
-        originalWidth={originalWidth}
-        originalHeight={originalHeight}
+        geometry={geometry}
+        center={center}
+        meshOptions={meshOptions}
         quality={quality}
+        toolpath={toolpath}
       />
       
       {/* 简化的参考网格 */}
       {quality !== 'low' && (
         <>
           <gridHelper 
-            args={[20, 20]} 
-            position={[0, -0.2, 0]} 
+            args={[gridSize, gridSize / 10]} 
+            position={[0, -0.02 * sceneScale, 0]} 
           />
-          <mesh position={[0, -0.201, 0]} rotation={[-Math.PI / 2, 0, 0]}>
-            <planeGeometry args={[20, 20]} />
+          <mesh position={[0, -0.021 * sceneScale, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+            <planeGeometry args={[gridSize, gridSize]} />
             <meshBasicMaterial 
               color="#f8f9fa" 
               opacity={0.15} 
@@ -714,18 +800,22 @@ function EnhancedScene({
 
 // 主组件
 export function DepthMap3DViewer({ 
-  depthMapUrl, 
+  depthMap, 
+  meshOptions,
   modelHeight, 
   width, 
   height, 
-  originalWidth,
-  originalHeight,
   quality = 'high',
   initialCameraState,
   onCameraStateChange,
   edgeType = 'vertical',
-  edgeWidth = 20,
+  edgeWidth = 2,
   chamferAngle = 45,
+  roundedVerticalRadius = null,
+  ogeeBalance = 0.5,
+  beadFilletRatio = 0.2,
+  stepCount = 3,
+  profileCurve = DEFAULT_PROFILE_CURVE,
   enableDPIOptimization = true,
   targetDPI = 300,
   enableEdgeSmoothing = true,
@@ -734,11 +824,13 @@ export function DepthMap3DViewer({
   isDebouncing = false,
   onParameterChange,
   isFullscreen = false,
-  onFullscreenToggle
+  onFullscreenToggle,
+  toolpath
 }: DepthMap3DViewerProps) {
   const [showExitHint, setShowExitHint] = useState(false);
   const [currentQuality, setCurrentQuality] = useState<'low' | 'medium' | 'high' | 'ultra'>(quality);
   const [renderTime, setRenderTime] = useState<number>(0);
+  const [meshStats, setMeshStats] = useState<MeshStats | null>(null);
   const hintTimeoutRef = useRef<number | null>(null);
   
   // 性能监控
@@ -750,7 +842,7 @@ export function DepthMap3DViewer({
     }, 100);
     
     return () => clearTimeout(timer);
-  }, [currentQuality, depthMapUrl, modelHeight]);
+  }, [currentQuality, depthMap, meshOptions]);
   
   const showHintWithDelay = () => {
     setShowExitHint(true);
@@ -836,6 +928,11 @@ export function DepthMap3DViewer({
           edgeType={edgeType}
           edgeWidth={edgeWidth}
           chamferAngle={chamferAngle}
+          roundedVerticalRadius={roundedVerticalRadius}
+          ogeeBalance={ogeeBalance}
+          beadFilletRatio={beadFilletRatio}
+          stepCount={stepCount}
+          profileCurve={profileCurve}
           modelHeight={modelHeight}
           enableDPIOptimization={enableDPIOptimization}
           targetDPI={targetDPI}
@@ -863,15 +960,16 @@ export function DepthMap3DViewer({
         performance={{ min: 0.8 }} // 设置最低帧率
       >
         <EnhancedScene 
-          depthMapUrl={depthMapUrl}
+          depthMap={depthMap}
+          meshOptions={meshOptions}
           modelHeight={modelHeight}
           width={width}
           height={height}
-          originalWidth={originalWidth}
-          originalHeight={originalHeight}
           quality={currentQuality}
           initialCameraState={initialCameraState}
           onCameraStateChange={onCameraStateChange}
+          onMeshStats={setMeshStats}
+          toolpath={toolpath}
         />
       </Canvas>
       
@@ -891,7 +989,23 @@ export function DepthMap3DViewer({
         <div className="space-y-1">
           <div><strong>模型高度:</strong> {modelHeight.toFixed(1)}mm</div>
           <div><strong>原始分辨率:</strong> {width}×{height}</div>
+          <div><strong>物理尺寸:</strong> {(width * meshOptions.mmPerPixel).toFixed(1)}×{(height * meshOptions.mmPerPixel).toFixed(1)}mm (网格10mm)</div>
           <div><strong>渲染质量:</strong> {qualityLabels[currentQuality]}</div>
+          {meshStats && (
+            <div>
+              <strong>三角形:</strong> {meshStats.triangles.toLocaleString()}
+              {meshStats.savedTriangles > 0 && (
+                <span className="text-green-600">（简化省去 {meshStats.savedTriangles.toLocaleString()}）</span>
+              )}
+            </div>
+          )}
+          {toolpath && (
+            <div>
+              <strong>刀路:</strong>{' '}
+              {toolpath.options.roughing && <span className="text-orange-500">粗加工 / </span>}
+              <span className="text-blue-600">精加工</span>
+            </div>
+          )}
           {renderTime > 0 && (
             <div className={`${renderTime > 500 ? 'text-red-600' : renderTime > 200 ? 'text-yellow-600' : 'text-green-600'}`}>
               <strong>性能:</strong> {renderTime > 500 ? '较慢' : renderTime > 200 ? '一般' : '流畅'}
@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DEFAULT_PROFILE_CURVE, ProfileCurve, evaluateProfileCurve } from '../utils/profileCurve';
+
+interface ProfileCurveEditorProps {
+  curve: ProfileCurve;
+  onChange: (curve: ProfileCurve) => void;
+  disabled?: boolean;
+}
+
+// 画布尺寸（SVG 坐标），四周留出控制点的拖拽余量
+const VIEW_WIDTH = 240;
+const VIEW_HEIGHT = 140;
+const PADDING = 10;
+const PLOT_WIDTH = VIEW_WIDTH - PADDING * 2;
+const PLOT_HEIGHT = VIEW_HEIGHT - PADDING * 2;
+
+// 相邻控制点之间的最小横向间距
+const MIN_POINT_GAP = 0.02;
+
+export function ProfileCurveEditor({ curve, onChange, disabled = false }: ProfileCurveEditorProps) {
+  // 拖动时只更新本地曲线，松开后再提交，避免每次移动都重新计算深度图
+  const [draft, setDraft] = useState<ProfileCurve>(curve);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    setDraft(curve);
+  }, [curve]);
+
+  const toSvg = (point: { x: number; y: number }) => ({
+    x: PADDING + point.x * PLOT_WIDTH,
+    y: PADDING + (1 - point.y) * PLOT_HEIGHT
+  });
+
+  const fromEvent = (e: React.PointerEvent | React.MouseEvent) => {
+    const svg = svgRef.current!;
+    const rect = svg.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width * VIEW_WIDTH - PADDING) / PLOT_WIDTH;
+    const y = 1 - ((e.clientY - rect.top) / rect.height * VIEW_HEIGHT - PADDING) / PLOT_HEIGHT;
+    return { x: Math.max(0, Math.min(1, x)), y: Math.max(0, Math.min(1, y)) };
+  };
+
+  const curvePath = useMemo(() => {
+    const samples = 64;
+    const commands: string[] = [];
+    for (let i = 0; i <= samples; i++) {
+      const t = i / samples;
+      const { x, y } = toSvg({ x: t, y: evaluateProfileCurve(draft, t) });
+      commands.push(`${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`);
+    }
+    return commands.join(' ');
+  }, [draft]);
+
+  const handlePointerDown = (index: number) => (e: React.PointerEvent) => {
+    if (disabled) return;
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setDragIndex(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragIndex === null) return;
+
+    const position = fromEvent(e);
+    setDraft(prev => prev.map((point, i) => {
+      if (i !== dragIndex) return point;
+
+      // 首尾控制点固定在两端，中间控制点不能越过相邻点
+      if (i === 0) return { x: 0, y: position.y };
+      if (i === prev.length - 1) return { x: 1, y: position.y };
+      const minX = prev[i - 1].x + MIN_POINT_GAP;
+      const maxX = prev[i + 1].x - MIN_POINT_GAP;
+      return { x: Math.max(minX, Math.min(maxX, position.x)), y: position.y };
+    }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (dragIndex === null) return;
+
+    svgRef.current?.releasePointerCapture(e.pointerId);
+    setDragIndex(null);
+    onChange(draft);
+  };
+
+  // 双击空白处添加控制点
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (disabled) return;
+
+    const position = fromEvent(e);
+    const tooClose = draft.some(point => Math.abs(point.x - position.x) < MIN_POINT_GAP);
+    if (tooClose) return;
+
+    const next = [...draft, position].sort((a, b) => a.x - b.x);
+    setDraft(next);
+    onChange(next);
+  };
+
+  // 双击中间控制点将其删除
+  const handlePointDoubleClick = (index: number) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (disabled || index === 0 || index === draft.length - 1) return;
+
+    const next = draft.filter((_, i) => i !== index);
+    setDraft(next);
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+        className={`w-full bg-gray-50 border border-gray-300 rounded-md select-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+        style={{ touchAction: 'none' }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+      >
+        {/* 网格 */}
+        {[0.25, 0.5, 0.75].map(t => (
+          <g key={t} stroke="#e5e7eb" strokeWidth={1}>
+            <line x1={toSvg({ x: t, y: 0 }).x} y1={PADDING} x2={toSvg({ x: t, y: 0 }).x} y2={PADDING + PLOT_HEIGHT} />
+            <line x1={PADDING} y1={toSvg({ x: 0, y: t }).y} x2={PADDING + PLOT_WIDTH} y2={toSvg({ x: 0, y: t }).y} />
+          </g>
+        ))}
+        <rect x={PADDING} y={PADDING} width={PLOT_WIDTH} height={PLOT_HEIGHT} fill="none" stroke="#d1d5db" />
+
+        {/* 剖面下方填充，直观显示实体部分 */}
+        <path
+          d={`${curvePath} L${PADDING + PLOT_WIDTH},${PADDING + PLOT_HEIGHT} L${PADDING},${PADDING + PLOT_HEIGHT} Z`}
+          fill="#bfdbfe"
+          fillOpacity={0.6}
+        />
+        <path d={curvePath} fill="none" stroke="#2563eb" strokeWidth={2} />
+
+        {draft.map((point, index) => {
+          const { x, y } = toSvg(point);
+          return (
+            <circle
+              key={index}
+              cx={x}
+              cy={y}
+              r={dragIndex === index ? 6 : 5}
+              fill={dragIndex === index ? '#1d4ed8' : '#ffffff'}
+              stroke="#1d4ed8"
+              strokeWidth={2}
+              className={disabled ? '' : 'cursor-move'}
+              onPointerDown={handlePointerDown(index)}
+              onDoubleClick={handlePointDoubleClick(index)}
+            />
+          );
+        })}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>轮廓边缘</span>
+        <span>边缘宽度处</span>
+      </div>
+      <div className="flex justify-between items-center mt-1">
+        <p className="text-xs text-gray-400">
+          💡 拖动控制点调整，双击空白处添加，双击控制点删除
+        </p>
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_PROFILE_CURVE)}
+          disabled={disabled}
+          className="text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+        >
+          重置
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { HeightFieldOptions, depthMapToHeightField } from '../utils/meshBuilder';
+import type { DepthField } from '../utils/depthField';
+
+interface StampPrintPreviewProps {
+  depthMap: DepthField; // 与导出共用的深度图（镜像后）
+  meshOptions: HeightFieldOptions; // 与导出共用的建模参数
+}
+
+// 预览画布的最大边长（像素），大图按步长采样
+const MAX_PREVIEW_SIZE = 600;
+
+// 印泥红
+const INK_COLOR: [number, number, number] = [200, 16, 46];
+
+export function StampPrintPreview({ depthMap, meshOptions }: StampPrintPreviewProps) {
+  const [inkDepth, setInkDepth] = useState(0.2); // 印面压入印泥的深度 (mm)
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  // 与3D模型使用同一高度场，雕刻模式（阴文）和底板边框都按实际顶面计算
+  const field = useMemo(() => {
+    const step = Math.max(1, Math.ceil(Math.max(depthMap.width, depthMap.height) / MAX_PREVIEW_SIZE));
+    return depthMapToHeightField(depthMap, meshOptions, step);
+  }, [depthMap, meshOptions]);
+
+  const topHeight = useMemo(() => {
+    let max = 0;
+    for (let i = 0; i < field.heights.length; i++) {
+      if (field.solidAlpha[i] >= field.contourAlpha) max = Math.max(max, field.heights[i]);
+    }
+    return max;
+  }, [field]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const { width, height, heights, solidAlpha, contourAlpha } = field;
+    const impression = new ImageData(width, height);
+
+    // 印面朝下盖印，印文是俯视印面的左右镜像；距最高面 inkDepth 以内的部分沾到印泥
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const source = y * width + (width - 1 - x);
+        const inked = solidAlpha[source] >= contourAlpha && heights[source] >= topHeight - inkDepth;
+        const target = (y * width + x) * 4;
+        impression.data[target] = inked ? INK_COLOR[0] : 255;
+        impression.data[target + 1] = inked ? INK_COLOR[1] : 255;
+        impression.data[target + 2] = inked ? INK_COLOR[2] : 255;
+        impression.data[target + 3] = 255;
+      }
+    }
+
+    canvas.width = width;
+    canvas.height = height;
+    ctx.putImageData(impression, 0, 0);
+  }, [field, topHeight, inkDepth]);
+
+  return (
+    <div>
+      <div className="border border-gray-200 rounded-lg overflow-hidden bg-white">
+        <canvas ref={canvasRef} className="w-full h-auto" />
+      </div>
+      <div className="mt-3">
+        <label className="block text-xs text-gray-600 mb-1">
+          压入深度: {inkDepth.toFixed(2)}mm
+        </label>
+        <input
+          type="range"
+          min="0.05"
+          max="2"
+          step="0.05"
+          value={inkDepth}
+          onChange={(e) => setInkDepth(parseFloat(e.target.value))}
+          className="w-full"
+        />
+        <p className="text-xs text-gray-400 mt-1">
+          💡 距印面最高处不超过压入深度的部分沾到印泥；未开启镜像时印文为反向
+        </p>
+      </div>
+    </div>
+  );
+}
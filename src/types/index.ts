@@ -1,20 +1,13 @@
 export interface ShapeConfig {
   height: number; // 高度，单位mm
   edgeType: 'vertical' | 'rounded' | 'chamfered';
-  cornerRadius: number; // 圆角半径，当edgeType为rounded时使用
+  cornerRadius: number; // 圆角半径（mm），当edgeType为rounded时使用
   chamferAngle: number; // 切角角度，当edgeType为chamfered时使用
+  mmPerPixel: number; // 原图每个像素对应的物理尺寸（mm）
 }
 
 export interface FileUploadResult {
   file: File;
   imageData?: ImageData;
   svgData?: string;
-}
-
-export interface GrayscaleOptions {
-  width: number;
-  height: number;
-  edgeType: ShapeConfig['edgeType'];
-  cornerRadius: number;
-  chamferAngle: number;
-} 
\ No newline at end of file
+}
\ No newline at end of file
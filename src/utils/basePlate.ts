@@ -0,0 +1,237 @@
+/**
+ * 底板工具 - 在浮雕下方生成底板，支持边距、多种外形、凸起边框和安装孔
+ * 底板外形、边框和孔洞都以有符号距离（像素，内部为负）描述，再转换为抗锯齿覆盖度，
+ * 与浮雕的透明度一样由 Marching Squares 提取亚像素轮廓
+ */
+
+import { euclideanDistanceTransform } from './distanceTransform';
+
+export type BasePlateShape = 'rectangle' | 'rounded' | 'circle' | 'contour';
+export type MountingHoleType = 'screw' | 'keyhole';
+
+export interface MountingHole {
+  type: MountingHoleType;
+  x: number; // 相对底板中心的位置（mm），向右为正
+  y: number; // 相对底板中心的位置（mm），向上为正
+}
+
+export interface BasePlateOptions {
+  enabled: boolean;
+  thickness: number; // 底板厚度（mm），雕刻模式下使用块体厚度
+  margin: number; // 形状外接框（或轮廓外扩）到底板边缘的距离（mm）
+  shape: BasePlateShape; // contour = 沿形状轮廓外扩
+  cornerRadius: number; // 圆角矩形的圆角半径（mm）
+  borderWidth: number; // 凸起边框宽度（mm），0 表示无边框
+  borderHeight: number; // 边框高出底板顶面的高度（mm）
+  holes: MountingHole[];
+  screwDiameter: number; // 螺丝孔直径（mm）
+  keyholeHeadDiameter: number; // 钥匙孔大圆直径（mm），供螺钉头穿过
+  keyholeSlotWidth: number; // 钥匙孔窄槽宽度（mm），略大于螺钉杆
+  keyholeSlotLength: number; // 窄槽自大圆圆心向上的长度（mm）
+}
+
+export const DEFAULT_BASE_PLATE: BasePlateOptions = {
+  enabled: false,
+  thickness: 2,
+  margin: 3,
+  shape: 'rounded',
+  cornerRadius: 3,
+  borderWidth: 0,
+  borderHeight: 1,
+  holes: [],
+  screwDiameter: 4,
+  keyholeHeadDiameter: 9,
+  keyholeSlotWidth: 4.5,
+  keyholeSlotLength: 8
+};
+
+export const BASE_PLATE_SHAPES: BasePlateShape[] = ['rectangle', 'rounded', 'circle', 'contour'];
+
+export interface BasePlateMask {
+  width: number; // 覆盖底板的画布尺寸（像素）
+  height: number;
+  offsetX: number; // 图像左上角在画布中的位置（像素），可为负（图像四周的透明区域被裁掉）
+  offsetY: number;
+  plate: Uint8Array; // 底板覆盖度（0-255），已挖去孔洞
+  border: Uint8Array; // 凸起边框覆盖度（0-255），已挖去孔洞
+  solid: Uint8Array; // 孔洞以外的覆盖度（0-255），孔洞会同时切穿浮雕
+}
+
+/**
+ * 按浮雕内部像素的范围生成底板
+ * inside 为图像尺寸的浮雕内部标记，mmPerPixel 为当前采样下每像素的尺寸
+ */
+export function rasterizeBasePlate(
+  inside: Uint8Array,
+  imageWidth: number,
+  imageHeight: number,
+  mmPerPixel: number,
+  options: BasePlateOptions
+): BasePlateMask {
+  const toPixels = (mm: number) => Math.max(0, mm) / mmPerPixel;
+  const margin = toPixels(options.margin);
+
+  // 浮雕的外接框（连续坐标，像素 x 覆盖 [x, x+1)），没有内部像素时取整幅图像
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let y = 0; y < imageHeight; y++) {
+    for (let x = 0; x < imageWidth; x++) {
+      if (!inside[y * imageWidth + x]) continue;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x + 1);
+      maxY = Math.max(maxY, y + 1);
+    }
+  }
+  if (minX === Infinity) {
+    [minX, minY, maxX, maxY] = [0, 0, imageWidth, imageHeight];
+  }
+
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+  let halfWidth = (maxX - minX) / 2 + margin;
+  let halfHeight = (maxY - minY) / 2 + margin;
+
+  if (options.shape === 'circle') {
+    // 圆心取外接框中心，半径覆盖最远的内部像素
+    let radius = 0;
+    for (let y = 0; y < imageHeight; y++) {
+      for (let x = 0; x < imageWidth; x++) {
+        if (!inside[y * imageWidth + x]) continue;
+        radius = Math.max(radius, Math.hypot(x + 0.5 - centerX, y + 0.5 - centerY) + Math.SQRT1_2);
+      }
+    }
+    if (radius === 0) radius = Math.hypot(maxX - minX, maxY - minY) / 2;
+    halfWidth = halfHeight = radius + margin;
+  }
+
+  // 画布比底板多留一个像素，保证底板轮廓闭合
+  const left = Math.floor(centerX - halfWidth) - 1;
+  const top = Math.floor(centerY - halfHeight) - 1;
+  const width = Math.ceil(centerX + halfWidth) + 1 - left;
+  const height = Math.ceil(centerY + halfHeight) + 1 - top;
+  const offsetX = -left;
+  const offsetY = -top;
+
+  // 轮廓外扩：画布上到最近浮雕像素的距离
+  let contourDistance: Float32Array | null = null;
+  if (options.shape === 'contour') {
+    const sites = new Uint8Array(width * height);
+    for (let y = 0; y < imageHeight; y++) {
+      for (let x = 0; x < imageWidth; x++) {
+        if (!inside[y * imageWidth + x]) continue;
+        const cx = x + offsetX;
+        const cy = y + offsetY;
+        if (cx >= 0 && cx < width && cy >= 0 && cy < height) sites[cy * width + cx] = 1;
+      }
+    }
+    const { squaredDistances } = euclideanDistanceTransform(sites, width, height);
+    contourDistance = new Float32Array(width * height);
+    for (let i = 0; i < width * height; i++) {
+      contourDistance[i] = sites[i] ? -0.5 : Math.sqrt(squaredDistances[i]) - 0.5;
+    }
+  }
+
+  const cornerRadius = Math.min(toPixels(options.cornerRadius), halfWidth, halfHeight);
+  const borderWidth = toPixels(options.borderWidth);
+  const holes = options.holes.map(hole => ({
+    type: hole.type,
+    x: centerX + hole.x / mmPerPixel,
+    y: centerY - hole.y / mmPerPixel
+  }));
+  const screwRadius = toPixels(options.screwDiameter) / 2;
+  const headRadius = toPixels(options.keyholeHeadDiameter) / 2;
+  const slotRadius = Math.min(toPixels(options.keyholeSlotWidth) / 2, headRadius);
+  const slotLength = toPixels(options.keyholeSlotLength);
+
+  const plateDistance = (px: number, py: number, index: number): number => {
+    const dx = px - centerX;
+    const dy = py - centerY;
+    switch (options.shape) {
+      case 'circle':
+        return Math.hypot(dx, dy) - halfWidth;
+      case 'contour':
+        return contourDistance![index] - margin;
+      case 'rounded':
+        return roundedBoxDistance(dx, dy, halfWidth, halfHeight, cornerRadius);
+      default:
+        return roundedBoxDistance(dx, dy, halfWidth, halfHeight, 0);
+    }
+  };
+
+  const holeDistance = (px: number, py: number): number => {
+    let distance = Infinity;
+    for (const hole of holes) {
+      if (hole.type === 'screw') {
+        distance = Math.min(distance, Math.hypot(px - hole.x, py - hole.y) - screwRadius);
+      } else {
+        // 大圆加向上的窄槽：螺钉头从大圆穿入，底板下滑后螺钉杆卡在窄槽顶端
+        const slotY = Math.max(hole.y - slotLength, Math.min(hole.y, py));
+        distance = Math.min(
+          distance,
+          Math.hypot(px - hole.x, py - hole.y) - headRadius,
+          Math.hypot(px - hole.x, py - slotY) - slotRadius
+        );
+      }
+    }
+    return distance;
+  };
+
+  const plate = new Uint8Array(width * height);
+  const border = new Uint8Array(width * height);
+  const solid = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const px = x - offsetX + 0.5;
+      const py = y - offsetY + 0.5;
+
+      const distance = plateDistance(px, py, index);
+      const solidCoverage = coverage(-holeDistance(px, py));
+      solid[index] = solidCoverage;
+      plate[index] = Math.min(coverage(distance), solidCoverage);
+      if (borderWidth > 0) {
+        border[index] = Math.min(coverage(Math.max(distance, -(distance + borderWidth))), solidCoverage);
+      }
+    }
+  }
+
+  console.log(`底板生成完成: ${width}x${height}，${options.holes.length} 个安装孔`);
+  return { width, height, offsetX, offsetY, plate, border, solid };
+}
+
+/**
+ * 从设置中读取底板参数，格式无效时返回 null
+ */
+export function parseBasePlateOptions(value: unknown): BasePlateOptions | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const parsed = { ...DEFAULT_BASE_PLATE, ...value } as BasePlateOptions;
+  return {
+    ...parsed,
+    shape: BASE_PLATE_SHAPES.includes(parsed.shape) ? parsed.shape : DEFAULT_BASE_PLATE.shape,
+    holes: Array.isArray(parsed.holes)
+      ? parsed.holes.filter(hole =>
+          hole !== null &&
+          typeof hole === 'object' &&
+          (hole.type === 'screw' || hole.type === 'keyhole') &&
+          Number.isFinite(hole.x) &&
+          Number.isFinite(hole.y)
+        )
+      : []
+  };
+}
+
+// 有符号距离转换为像素覆盖度，轮廓两侧各半个像素线性过渡
+function coverage(signedDistance: number): number {
+  return Math.round(Math.max(0, Math.min(1, 0.5 - signedDistance)) * 255);
+}
+
+function roundedBoxDistance(dx: number, dy: number, halfWidth: number, halfHeight: number, radius: number): number {
+  const qx = Math.abs(dx) - halfWidth + radius;
+  const qy = Math.abs(dy) - halfHeight + radius;
+  return Math.hypot(Math.max(qx, 0), Math.max(qy, 0)) + Math.min(Math.max(qx, qy), 0) - radius;
+}
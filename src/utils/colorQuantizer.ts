@@ -0,0 +1,145 @@
+/**
+ * 颜色量化工具 - 用 k-means 把图像内部区域聚类为若干颜色/灰度层
+ */
+
+export type QuantizeMode = 'color' | 'grey';
+
+export interface ColorCluster {
+  color: [number, number, number]; // 聚类中心的 RGB（灰度模式下三通道相同）
+  luminance: number; // 0-255
+}
+
+// 聚类只使用抽样像素，结果可复现
+const MAX_SAMPLES = 50000;
+const ITERATIONS = 12;
+
+const luminanceOf = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+/**
+ * 对 inside 标记的像素聚类，返回按亮度从暗到亮排列的聚类中心
+ */
+export function findColorClusters(
+  imageData: ImageData,
+  inside: Uint8Array,
+  clusterCount: number,
+  mode: QuantizeMode
+): ColorCluster[] {
+  const { data } = imageData;
+  const features = mode === 'color' ? 3 : 1;
+
+  let insideCount = 0;
+  for (let i = 0; i < inside.length; i++) {
+    if (inside[i]) insideCount++;
+  }
+  if (insideCount === 0) return [];
+
+  // 等间隔抽样
+  const stride = Math.max(1, Math.floor(insideCount / MAX_SAMPLES));
+  const samples: number[] = [];
+  let seen = 0;
+  for (let i = 0; i < inside.length; i++) {
+    if (!inside[i]) continue;
+    if (seen++ % stride !== 0) continue;
+    pushFeatures(samples, data, i, mode);
+  }
+  const sampleCount = samples.length / features;
+
+  // 按亮度分位数初始化聚类中心，保证结果确定
+  const order = Array.from({ length: sampleCount }, (_, i) => i)
+    .sort((a, b) => sampleLuminance(samples, a, mode) - sampleLuminance(samples, b, mode));
+  const k = Math.max(1, Math.min(clusterCount, sampleCount));
+  const centers: number[][] = [];
+  for (let c = 0; c < k; c++) {
+    const sample = order[Math.floor(((c + 0.5) / k) * sampleCount)];
+    centers.push(samples.slice(sample * features, sample * features + features));
+  }
+
+  const sums = new Float64Array(k * features);
+  const counts = new Uint32Array(k);
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    sums.fill(0);
+    counts.fill(0);
+
+    for (let s = 0; s < sampleCount; s++) {
+      const cluster = nearestCenter(samples, s * features, centers);
+      counts[cluster]++;
+      for (let f = 0; f < features; f++) {
+        sums[cluster * features + f] += samples[s * features + f];
+      }
+    }
+
+    for (let c = 0; c < k; c++) {
+      if (counts[c] === 0) continue; // 空聚类保持原中心
+      for (let f = 0; f < features; f++) {
+        centers[c][f] = sums[c * features + f] / counts[c];
+      }
+    }
+  }
+
+  return centers
+    .map(center => {
+      const color: [number, number, number] = mode === 'color'
+        ? [center[0], center[1], center[2]]
+        : [center[0], center[0], center[0]];
+      return { color, luminance: luminanceOf(color[0], color[1], color[2]) };
+    })
+    .sort((a, b) => a.luminance - b.luminance);
+}
+
+/**
+ * 把每个内部像素分配到最近的聚类，外部像素为 255
+ */
+export function assignClusters(
+  imageData: ImageData,
+  inside: Uint8Array,
+  clusters: ColorCluster[],
+  mode: QuantizeMode
+): Uint8Array {
+  const { data } = imageData;
+  const assignments = new Uint8Array(inside.length).fill(255);
+  const centers = clusters.map(cluster => (mode === 'color' ? [...cluster.color] : [cluster.luminance]));
+  const pixel: number[] = [];
+
+  for (let i = 0; i < inside.length; i++) {
+    if (!inside[i]) continue;
+    pixel.length = 0;
+    pushFeatures(pixel, data, i, mode);
+    assignments[i] = nearestCenter(pixel, 0, centers);
+  }
+
+  return assignments;
+}
+
+function pushFeatures(target: number[], data: Uint8ClampedArray, pixel: number, mode: QuantizeMode): void {
+  const r = data[pixel * 4];
+  const g = data[pixel * 4 + 1];
+  const b = data[pixel * 4 + 2];
+  if (mode === 'color') {
+    target.push(r, g, b);
+  } else {
+    target.push(luminanceOf(r, g, b));
+  }
+}
+
+function sampleLuminance(samples: number[], index: number, mode: QuantizeMode): number {
+  return mode === 'color'
+    ? luminanceOf(samples[index * 3], samples[index * 3 + 1], samples[index * 3 + 2])
+    : samples[index];
+}
+
+function nearestCenter(values: number[], offset: number, centers: number[][]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let c = 0; c < centers.length; c++) {
+    let distance = 0;
+    for (let f = 0; f < centers[c].length; f++) {
+      const diff = values[offset + f] - centers[c][f];
+      distance += diff * diff;
+    }
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = c;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,55 @@
+/**
+ * 浮点深度场 - 剖面阶段之后的深度图表示
+ * 深度沿用 0-255 的刻度（255 对应模型高度），以 Float32 保存，避免 8 位量化在缓坡上产生台阶纹
+ * 透明度单独保存，网格据此重建亚像素轮廓
+ */
+
+export interface DepthField {
+  width: number;
+  height: number;
+  depth: Float32Array; // 每像素深度，0-255，可含小数
+  alpha: Uint8ClampedArray; // 每像素原始透明度
+}
+
+export function createDepthField(width: number, height: number): DepthField {
+  return {
+    width,
+    height,
+    depth: new Float32Array(width * height),
+    alpha: new Uint8ClampedArray(width * height)
+  };
+}
+
+/**
+ * 转换为 8 位灰度图，用于界面显示和普通 PNG 下载
+ */
+export function depthFieldToImageData(field: DepthField): ImageData {
+  const { width, height, depth, alpha } = field;
+  const result = new ImageData(width, height);
+
+  for (let i = 0; i < width * height; i++) {
+    const value = Math.round(depth[i]);
+    result.data[i * 4] = value;
+    result.data[i * 4 + 1] = value;
+    result.data[i * 4 + 2] = value;
+    result.data[i * 4 + 3] = alpha[i];
+  }
+  return result;
+}
+
+/**
+ * 水平镜像深度场（印章需要反向雕刻，盖出的印文才是正向）
+ */
+export function mirrorDepthField(field: DepthField): DepthField {
+  const { width, height } = field;
+  const result = createDepthField(width, height);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      result.depth[row + x] = field.depth[row + width - 1 - x];
+      result.alpha[row + x] = field.alpha[row + width - 1 - x];
+    }
+  }
+  return result;
+}
@@ -0,0 +1,76 @@
+/**
+ * 高精度深度图导出 - 16位灰度PNG、PFM和原始 float32，避免8位PNG在缓坡上只有256级高度
+ * PFM 和 RAW 直接保存毫米高度，CNC软件导入时无需再换算浮雕高度
+ */
+
+import type { DepthField } from './depthField';
+import { encodeDepthFieldPng16 } from './png16';
+import { downloadBlob } from './download';
+
+export type DepthMapFormat = 'png16' | 'pfm' | 'raw';
+
+export interface DepthMapExportOptions {
+  depthMap: DepthField; // 与3D预览相同的深度图
+  format: DepthMapFormat;
+  modelHeight: number; // 深度值255对应的高度（mm）
+  dpi: number; // 深度图的分辨率，写入PNG的pHYs
+  filename?: string; // 不含扩展名
+}
+
+/**
+ * 按指定格式导出深度图并下载
+ */
+export async function exportDepthMap(options: DepthMapExportOptions): Promise<void> {
+  const { depthMap, format, modelHeight, dpi, filename = 'depth-map' } = options;
+  const { width, height } = depthMap;
+
+  switch (format) {
+    case 'png16':
+      downloadBlob(await encodeDepthFieldPng16(depthMap, dpi), `${filename}.png`);
+      break;
+    case 'pfm':
+      downloadBlob(writePFM(depthMap, modelHeight), `${filename}.pfm`);
+      break;
+    case 'raw':
+      // RAW 没有文件头，尺寸写在文件名中
+      downloadBlob(writeRawFloat32(depthMap, modelHeight), `${filename}-${width}x${height}-f32.raw`);
+      break;
+  }
+}
+
+/**
+ * 生成单通道PFM：文件头 "Pf"、尺寸和负比例因子（表示小端），像素行自下而上，值为高度（mm）
+ */
+export function writePFM(field: DepthField, modelHeight: number): Blob {
+  const { width, height } = field;
+  const header = `Pf\n${width} ${height}\n-1.0\n`;
+  const body = new DataView(new ArrayBuffer(width * height * 4));
+
+  for (let y = 0; y < height; y++) {
+    const row = (height - 1 - y) * width;
+    for (let x = 0; x < width; x++) {
+      body.setFloat32((row + x) * 4, heightMm(field, y * width + x, modelHeight), true);
+    }
+  }
+
+  return new Blob([header, body.buffer], { type: 'application/octet-stream' });
+}
+
+/**
+ * 生成无文件头的 float32 小端数据，像素行自上而下，值为高度（mm）
+ */
+export function writeRawFloat32(field: DepthField, modelHeight: number): Blob {
+  const { width, height } = field;
+  const body = new DataView(new ArrayBuffer(width * height * 4));
+
+  for (let i = 0; i < width * height; i++) {
+    body.setFloat32(i * 4, heightMm(field, i, modelHeight), true);
+  }
+
+  return new Blob([body.buffer], { type: 'application/octet-stream' });
+}
+
+// 透明区域没有实体，高度记为 0
+function heightMm(field: DepthField, index: number, modelHeight: number): number {
+  return field.alpha[index] > 0 ? (field.depth[index] / 255) * modelHeight : 0;
+}
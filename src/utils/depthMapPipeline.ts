@@ -0,0 +1,113 @@
+/**
+ * 分阶段的深度图处理流水线：轮廓 → 距离场 → 剖面 → 平滑 → 放大
+ * 每个阶段缓存最近一次的结果，缓存键只包含该阶段及其上游实际依赖的参数，
+ * 例如只调整切角角度时直接复用轮廓和距离场，只重新计算剖面、平滑和放大
+ */
+
+import type { DepthField } from './depthField';
+import type { ColorCluster } from './colorQuantizer';
+import {
+  EdgeProcessorOptions,
+  ProcessingProgressCallback,
+  ProcessingStage,
+  applyEdgeProfile,
+  calculateDistanceFields,
+  extractContours,
+  intelligentEdgeSmoothing,
+  performDPIOptimization
+} from './edgeProcessor';
+import { DEFAULT_CONTOUR_ALPHA } from './marchingSquares';
+import { mmPerPixelToDPI } from './physicalSize';
+
+export interface DepthMapProcessingSettings {
+  options: EdgeProcessorOptions;
+  enableDPIOptimization: boolean;
+  targetDPI: number;
+  enableEdgeSmoothing: boolean;
+  smoothingStrength: number;
+}
+
+export interface DepthMapResult {
+  depthMap: DepthField;
+  terraceClusters: ColorCluster[]; // 距离场阶段聚类得到的颜色层，未启用分层浮雕时为空
+}
+
+export interface DepthMapPipeline {
+  // imageId 标识原图，相同 id 的图像内容必须相同；被取消时返回 null
+  run(
+    image: ImageData,
+    imageId: number,
+    settings: DepthMapProcessingSettings,
+    onProgress?: ProcessingProgressCallback,
+    isCancelled?: () => boolean
+  ): Promise<DepthMapResult | null>;
+}
+
+/**
+ * 各阶段的缓存键：只包含该阶段及其上游实际依赖的参数，下游阶段的键包含上游的键，上游变化时下游一并失效
+ */
+export function createStageKeys(imageId: number, settings: DepthMapProcessingSettings): Record<ProcessingStage, string> {
+  const { options, targetDPI, enableEdgeSmoothing, smoothingStrength } = settings;
+  const contourAlpha = options.contourAlpha ?? DEFAULT_CONTOUR_ALPHA;
+
+  const contour = `${imageId}|${contourAlpha}`;
+  const distance = `${contour}|${JSON.stringify(options.terraces?.enabled ? [options.terraces, options.modelHeight] : null)}`;
+  const depth = `${distance}|${JSON.stringify({ ...options, terraces: undefined })}`;
+  const smoothing = `${depth}|${enableEdgeSmoothing ? smoothingStrength : 'off'}`;
+  const upscale = `${smoothing}|${targetDPI}`;
+  return { contour, distance, depth, smoothing, upscale };
+}
+
+interface CachedStage {
+  key: string;
+  value: unknown;
+}
+
+export function createDepthMapPipeline(): DepthMapPipeline {
+  const cache = new Map<ProcessingStage, CachedStage>();
+
+  return {
+    async run(image, imageId, settings, onProgress, isCancelled = () => false) {
+      const { options, enableDPIOptimization, targetDPI, enableEdgeSmoothing, smoothingStrength } = settings;
+      const contourAlpha = options.contourAlpha ?? DEFAULT_CONTOUR_ALPHA;
+      const currentDPI = mmPerPixelToDPI(options.mmPerPixel);
+      const keys = createStageKeys(imageId, settings);
+      const upscale = enableDPIOptimization && currentDPI < targetDPI;
+
+      const stage = async <T>(name: ProcessingStage, key: string, compute: () => T): Promise<T | null> => {
+        const cached = cache.get(name);
+        if (cached?.key === key) return cached.value as T;
+
+        // 阶段之间让出事件循环，使取消消息得以处理
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (isCancelled()) return null;
+
+        onProgress?.(name);
+        const startTime = performance.now();
+        const value = compute();
+        cache.set(name, { key, value });
+        console.log(`深度图阶段 ${name} 完成，用时 ${(performance.now() - startTime).toFixed(0)}ms`);
+        return value;
+      };
+
+      const contour = await stage('contour', keys.contour, () => extractContours(image, contourAlpha));
+      if (!contour) return null;
+
+      const distance = await stage('distance', keys.distance, () => calculateDistanceFields(image, contour, options));
+      if (!distance) return null;
+
+      const depthMap = await stage('depth', keys.depth, () => applyEdgeProfile(image, contour, distance, options));
+      if (!depthMap) return null;
+
+      const smoothed = enableEdgeSmoothing
+        ? await stage('smoothing', keys.smoothing, () => intelligentEdgeSmoothing(depthMap, smoothingStrength))
+        : depthMap;
+      if (!smoothed) return null;
+
+      const result = upscale
+        ? await stage('upscale', keys.upscale, () => performDPIOptimization(smoothed, targetDPI, currentDPI))
+        : smoothed;
+      return result && { depthMap: result, terraceClusters: distance.clusters };
+    }
+  };
+}
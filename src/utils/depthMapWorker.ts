@@ -0,0 +1,59 @@
+/**
+ * 深度图处理 Worker - 轮廓提取、距离场、平滑和放大都在后台线程执行，避免阻塞界面
+ * 像素数据通过可转移的 ArrayBuffer 传递，不复制；各阶段的结果缓存在 Worker 中供后续任务复用
+ */
+
+import { createDepthMapPipeline } from './depthMapPipeline';
+import type { DepthMapWorkerMessage, DepthMapWorkerRequest } from './depthMapWorkerClient';
+
+// tsconfig 未包含 WebWorker 类型库，Worker 全局对象的收发接口与 Worker 实例一致
+const workerScope = self as unknown as Worker;
+
+const pipeline = createDepthMapPipeline();
+let image: ImageData | null = null;
+let activeJobId = 0;
+
+const post = (message: DepthMapWorkerMessage, transfer: Transferable[] = []) => {
+  workerScope.postMessage(message, transfer);
+};
+
+workerScope.onmessage = async (event: MessageEvent<DepthMapWorkerRequest>) => {
+  const request = event.data;
+
+  // 新任务或取消消息到来后，旧任务在下一个阶段开始前退出
+  if (request.type === 'cancel') {
+    if (activeJobId === request.jobId) activeJobId = 0;
+    return;
+  }
+
+  const { jobId, imageId, width, height, buffer, settings } = request;
+  activeJobId = jobId;
+
+  try {
+    if (buffer) {
+      image = new ImageData(new Uint8ClampedArray(buffer), width, height);
+    }
+    if (!image) throw new Error('Worker 中没有可处理的原图');
+
+    const result = await pipeline.run(
+      image,
+      imageId,
+      settings,
+      stage => post({ type: 'progress', jobId, stage }),
+      () => activeJobId !== jobId
+    );
+    if (!result) {
+      // 告知调用端 Worker 已空闲
+      post({ type: 'cancelled', jobId });
+      return;
+    }
+
+    // 结果仍在阶段缓存中，转移它的副本
+    const { depthMap, terraceClusters } = result;
+    const depth = depthMap.depth.slice().buffer;
+    const alpha = depthMap.alpha.slice().buffer;
+    post({ type: 'done', jobId, width: depthMap.width, height: depthMap.height, depth, alpha, terraceClusters }, [depth, alpha]);
+  } catch (error) {
+    post({ type: 'error', jobId, message: error instanceof Error ? error.message : String(error) });
+  }
+};
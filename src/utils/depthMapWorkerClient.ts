@@ -0,0 +1,169 @@
+/**
+ * 深度图处理 Worker 的调用端 - 同一时间只关心一个任务，新任务到来时取消旧任务
+ * 取消消息在阶段之间生效，Worker 保持运行，阶段缓存得以保留。各阶段是一次同步计算，Worker 在计算中途收不到消息，
+ * 因此新任务到来时若 Worker 仍在计算新任务用不上的阶段，直接终止并重建 Worker（阶段缓存随之丢弃），不再等它算完
+ */
+
+import type { ColorCluster } from './colorQuantizer';
+import type { ProcessingProgressCallback, ProcessingStage } from './edgeProcessor';
+import { DepthMapProcessingSettings, DepthMapResult, createStageKeys } from './depthMapPipeline';
+
+export type DepthMapWorkerRequest =
+  | {
+      type: 'process';
+      jobId: number;
+      imageId: number;
+      width: number;
+      height: number;
+      buffer: ArrayBuffer | null; // 原图 RGBA 像素，Worker 已有同一原图时为 null
+      settings: DepthMapProcessingSettings;
+    }
+  | { type: 'cancel'; jobId: number };
+
+export type DepthMapWorkerMessage =
+  | { type: 'progress'; jobId: number; stage: ProcessingStage }
+  | { type: 'done'; jobId: number; width: number; height: number; depth: ArrayBuffer; alpha: ArrayBuffer; terraceClusters: ColorCluster[] }
+  | { type: 'cancelled'; jobId: number }
+  | { type: 'error'; jobId: number; message: string };
+
+interface PendingJob {
+  jobId: number;
+  resolve: (result: DepthMapResult | null) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProcessingProgressCallback;
+}
+
+export interface DepthMapProcessor {
+  // 处理深度图，任务被取消时返回 null
+  process(imageData: ImageData, settings: DepthMapProcessingSettings, onProgress?: ProcessingProgressCallback): Promise<DepthMapResult | null>;
+  cancel(): void;
+  dispose(): void;
+}
+
+export function createDepthMapProcessor(): DepthMapProcessor {
+  let worker: Worker | null = null;
+  let pending: PendingJob | null = null;
+  let nextJobId = 0;
+
+  // 已发送且 Worker 尚未结束的任务的阶段缓存键（被取消的任务在 Worker 确认退出前仍在其中），以及 Worker 最近开始计算的阶段
+  const activeJobKeys = new Map<number, Record<ProcessingStage, string>>();
+  let computing: { jobId: number; stage: ProcessingStage } | null = null;
+
+  // 原图按对象分配 id，同一原图只向 Worker 传送一次
+  const imageIds = new WeakMap<ImageData, number>();
+  let nextImageId = 0;
+  let sentImageId = -1;
+
+  const terminate = () => {
+    worker?.terminate();
+    worker = null;
+    activeJobKeys.clear();
+    computing = null;
+    sentImageId = -1;
+  };
+
+  const handleMessage = (event: MessageEvent<DepthMapWorkerMessage>) => {
+    const message = event.data;
+    if (message.type === 'progress') {
+      computing = { jobId: message.jobId, stage: message.stage };
+    } else {
+      activeJobKeys.delete(message.jobId);
+      if (computing?.jobId === message.jobId) computing = null;
+    }
+
+    if (pending?.jobId !== message.jobId) return;
+    const job = pending;
+
+    if (message.type === 'progress') {
+      job.onProgress?.(message.stage);
+    } else if (message.type === 'done') {
+      pending = null;
+      job.resolve({
+        depthMap: {
+          width: message.width,
+          height: message.height,
+          depth: new Float32Array(message.depth),
+          alpha: new Uint8ClampedArray(message.alpha)
+        },
+        terraceClusters: message.terraceClusters
+      });
+    } else if (message.type === 'cancelled') {
+      pending = null;
+      job.resolve(null);
+    } else {
+      pending = null;
+      job.reject(new Error(message.message));
+    }
+  };
+
+  const createWorker = (): Worker => {
+    const created = new Worker(new URL('./depthMapWorker.ts', import.meta.url), { type: 'module' });
+    created.onmessage = handleMessage;
+    created.onerror = (event) => {
+      const job = pending;
+      pending = null;
+      terminate();
+      job?.reject(new Error(event.message || '深度图处理 Worker 出错'));
+    };
+    return created;
+  };
+
+  const cancel = () => {
+    if (!pending) return;
+
+    worker?.postMessage({ type: 'cancel', jobId: pending.jobId } satisfies DepthMapWorkerRequest);
+    pending.resolve(null);
+    pending = null;
+    console.log('已取消进行中的深度图处理任务');
+  };
+
+  return {
+    process(imageData, settings, onProgress) {
+      cancel();
+
+      let imageId = imageIds.get(imageData);
+      if (imageId === undefined) {
+        imageId = ++nextImageId;
+        imageIds.set(imageData, imageId);
+      }
+      const keys = createStageKeys(imageId, settings);
+
+      // 旧任务正在计算的阶段结果新任务用不上时，等它算完只是浪费时间
+      const computingKey = computing && activeJobKeys.get(computing.jobId)?.[computing.stage];
+      if (computing && computingKey !== keys[computing.stage]) {
+        console.log(`终止正在计算 ${computing.stage} 阶段的深度图 Worker`);
+        terminate();
+      }
+
+      const activeWorker = worker ?? createWorker();
+      worker = activeWorker;
+      const jobId = ++nextJobId;
+      activeJobKeys.set(jobId, keys);
+
+      return new Promise((resolve, reject) => {
+        pending = { jobId, resolve, reject, onProgress };
+
+        // 原图仍保留在界面状态中，转移它的副本
+        const buffer = imageId === sentImageId ? null : imageData.data.slice().buffer;
+        sentImageId = imageId!;
+        const request: DepthMapWorkerRequest = {
+          type: 'process',
+          jobId,
+          imageId: imageId!,
+          width: imageData.width,
+          height: imageData.height,
+          buffer,
+          settings
+        };
+        activeWorker.postMessage(request, buffer ? [buffer] : []);
+      });
+    },
+
+    cancel,
+
+    dispose() {
+      cancel();
+      terminate();
+    }
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * 精确欧几里得距离变换（Felzenszwalb & Huttenlocher 线性时间算法）
+ */
+
+// 代替无穷大，避免 Infinity - Infinity 产生 NaN
+const FAR = 1e20;
+
+export interface DistanceTransformResult {
+  squaredDistances: Float32Array; // 到最近种子像素中心的距离平方（像素²）
+  nearest: Int32Array; // 最近种子像素的索引
+}
+
+/**
+ * 计算每个像素到最近种子像素（sites[i] = 1）的精确欧几里得距离
+ * 先按列、再按行做两次一维下包络变换，总复杂度 O(width·height)
+ */
+export function euclideanDistanceTransform(sites: Uint8Array, width: number, height: number): DistanceTransformResult {
+  const size = Math.max(width, height);
+  const f = new Float32Array(size);
+  const d = new Float32Array(size);
+  const arg = new Int32Array(size);
+  const v = new Int32Array(size);
+  const z = new Float32Array(size + 1);
+
+  const columnDistances = new Float32Array(width * height);
+  const nearestRow = new Int32Array(width * height);
+
+  // 第一遍：每一列到该列最近种子的距离
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      f[y] = sites[y * width + x] ? 0 : FAR;
+    }
+    transform1D(f, height, d, arg, v, z);
+    for (let y = 0; y < height; y++) {
+      columnDistances[y * width + x] = d[y];
+      nearestRow[y * width + x] = arg[y];
+    }
+  }
+
+  const squaredDistances = new Float32Array(width * height);
+  const nearest = new Int32Array(width * height);
+
+  // 第二遍：沿行合并各列的结果
+  for (let y = 0; y < height; y++) {
+    const rowOffset = y * width;
+    for (let x = 0; x < width; x++) {
+      f[x] = columnDistances[rowOffset + x];
+    }
+    transform1D(f, width, d, arg, v, z);
+    for (let x = 0; x < width; x++) {
+      const column = arg[x];
+      squaredDistances[rowOffset + x] = d[x];
+      nearest[rowOffset + x] = nearestRow[rowOffset + column] * width + column;
+    }
+  }
+
+  return { squaredDistances, nearest };
+}
+
+/**
+ * 一维距离变换：d[q] = min_p ((q - p)² + f[p])，arg[q] 为取得最小值的 p
+ */
+function transform1D(
+  f: Float32Array,
+  n: number,
+  d: Float32Array,
+  arg: Int32Array,
+  v: Int32Array,
+  z: Float32Array
+): void {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -FAR;
+  z[1] = FAR;
+
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = FAR;
+  }
+
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) {
+      k++;
+    }
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+    arg[q] = v[k];
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * 触发浏览器下载生成的文件
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 解码 base64 DataURL 的内容，用于把 canvas 生成的图片打包进模型文件
+ */
+export function dataURLToBytes(dataURL: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(dataURL.slice(dataURL.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LUMINANCE_RELIEF, EdgeProcessorOptions, ReliefBlendMode, processImageWithEdges } from './edgeProcessor';
+
+const SIZE = 40;
+
+// 不透明的水平灰度渐变，四周留透明边，形状为内部的矩形
+function createGradientImage(): ImageData {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const index = (y * SIZE + x) * 4;
+      const value = Math.round((x / (SIZE - 1)) * 255);
+      const opaque = x >= 4 && x < SIZE - 4 && y >= 4 && y < SIZE - 4;
+      data[index] = value;
+      data[index + 1] = value;
+      data[index + 2] = value;
+      data[index + 3] = opaque ? 255 : 0;
+    }
+  }
+  return { width: SIZE, height: SIZE, data, colorSpace: 'srgb' } as ImageData;
+}
+
+function interiorHeights(blendMode: ReliefBlendMode): Set<number> {
+  const options: EdgeProcessorOptions = {
+    edgeType: 'rounded',
+    edgeWidth: 0.5,
+    modelHeight: 3,
+    mmPerPixel: 0.1,
+    luminanceRelief: { ...DEFAULT_LUMINANCE_RELIEF, blendMode }
+  };
+  const field = processImageWithEdges(createGradientImage(), options);
+
+  // 边缘宽度为 5 像素，只取剖面已到顶的内部像素
+  const heights = new Set<number>();
+  for (let y = 12; y < SIZE - 12; y++) {
+    for (let x = 12; x < SIZE - 12; x++) {
+      heights.add(Math.round(field.depth[y * SIZE + x]));
+    }
+  }
+  return heights;
+}
+
+describe('灰度浮雕', () => {
+  it.each<ReliefBlendMode>(['multiply', 'min', 'addScaled'])('%s 模式下内部保留原图灰度起伏', blendMode => {
+    expect(interiorHeights(blendMode).size).toBeGreaterThan(1);
+  });
+
+  it('add 模式叠加后截断到满高度', () => {
+    expect([...interiorHeights('add')]).toEqual([255]);
+  });
+});
+
+describe('切角边缘', () => {
+  function chamferDepths(chamferAngle: number): number[] {
+    const field = processImageWithEdges(createGradientImage(), {
+      edgeType: 'chamfered',
+      edgeWidth: 0.5,
+      chamferAngle,
+      modelHeight: 3,
+      mmPerPixel: 0.1
+    });
+    return [...field.depth].filter((_, i) => field.alpha[i] === 255);
+  }
+
+  it('0° 不会被当作默认的 45°', () => {
+    expect(Math.min(...chamferDepths(0))).toBe(255);
+    expect(Math.min(...chamferDepths(45))).toBeLessThan(255);
+  });
+
+  it('超出范围的角度被限制在有效范围内', () => {
+    // 大于 90° 时 tan 为负，不限制会把斜面算成高于顶面
+    expect(chamferDepths(120)).toEqual(chamferDepths(89));
+    expect(chamferDepths(-30)).toEqual(chamferDepths(0));
+  });
+});
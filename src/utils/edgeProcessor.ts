@@ -2,264 +2,600 @@
  * 简化的边缘处理器 - 专注于深度图生成
  */
 
+import { ColorCluster, QuantizeMode, assignClusters, findColorClusters } from './colorQuantizer';
+import { DepthField, createDepthField } from './depthField';
+import { euclideanDistanceTransform } from './distanceTransform';
+import { Contour, DEFAULT_CONTOUR_ALPHA, traceContours } from './marchingSquares';
+import { setPngDataURLDPI } from './physicalSize';
+import { DEFAULT_PROFILE_CURVE, ProfileCurve, createProfileLookup } from './profileCurve';
+
+export type EdgeType = 'vertical' | 'rounded' | 'chamfered' | 'cove' | 'ogee' | 'bead' | 'stepped' | 'custom';
+
+export type ReliefBlendMode = 'none' | 'multiply' | 'min' | 'add' | 'addScaled';
+
+// 原图灰度浮雕：亮度映射为高度后与边缘剖面混合，白色最高、黑色最低
+export interface LuminanceReliefOptions {
+  blendMode: ReliefBlendMode; // none 时不使用原图灰度
+  gamma: number; // 亮度伽马，大于1压暗中间调
+  invert: boolean; // 反转后黑色最高
+  rangeMin: number; // 最暗处高度占浮雕高度的比例（0-1）
+  rangeMax: number; // 最亮处高度占浮雕高度的比例（0-1）
+}
+
+export const DEFAULT_LUMINANCE_RELIEF: LuminanceReliefOptions = {
+  blendMode: 'none',
+  gamma: 1,
+  invert: false,
+  rangeMin: 0.3,
+  rangeMax: 1
+};
+
+// 分层浮雕：把图像量化为若干颜色/灰度层，每层有独立高度，边缘剖面作用于每一级高度变化处
+export interface TerraceOptions {
+  enabled: boolean;
+  levelCount: number; // 分层数（2-8）
+  quantizeMode: QuantizeMode; // 按颜色或灰度聚类
+  levelHeights: number[]; // 按亮度从暗到亮各层的高度（mm），缺省时均匀分布
+}
+
+export const DEFAULT_TERRACES: TerraceOptions = {
+  enabled: false,
+  levelCount: 3,
+  quantizeMode: 'color',
+  levelHeights: []
+};
+
 export interface EdgeProcessorOptions {
-  edgeType: 'vertical' | 'rounded' | 'chamfered';
-  edgeWidth: number; // 边缘渐变的宽度（像素）
-  chamferAngle?: number; // 切角角度（度）
+  edgeType: EdgeType;
+  edgeWidth: number; // 边缘渐变的宽度（mm）
+  holeEdgeType?: EdgeType; // 孔洞（内轮廓）的边缘类型，默认与外轮廓相同
+  holeEdgeWidth?: number; // 孔洞的边缘宽度（mm），默认与外轮廓相同
+  chamferAngle?: number; // 切角斜面与水平面的夹角（度）
+  roundedVerticalRadius?: number; // 圆角的竖直半径（mm），自顶面向下计，默认等于浮雕高度
+  modelHeight: number; // 浮雕高度（mm），深度值255对应该高度
+  mmPerPixel: number; // 原图每个像素对应的物理尺寸（mm）
+  contourAlpha?: number; // 轮廓等值线的透明度（0-255），默认128
+  profileCurve?: ProfileCurve; // 自定义边缘的剖面曲线
+  ogeeBalance?: number; // 反曲线（S形）拐点在边缘宽度上的位置（0-1），默认0.5
+  beadFilletRatio?: number; // 圆珠线下方台阶高度占浮雕高度的比例（0-1），默认0.2
+  stepCount?: number; // 阶梯边缘的台阶数，默认3
+  luminanceRelief?: LuminanceReliefOptions; // 原图灰度浮雕，默认不使用
+  terraces?: TerraceOptions; // 分层浮雕，默认不使用
+}
+
+// 深度图处理的各个阶段，用于报告进度
+export type ProcessingStage = 'contour' | 'distance' | 'depth' | 'smoothing' | 'upscale';
+export type ProcessingProgressCallback = (stage: ProcessingStage) => void;
+
+// DPI优化后深度图的最大像素数，避免大幅面低DPI图像放大后耗尽内存
+const MAX_OPTIMIZED_PIXELS = 4096 * 4096;
+
+// 切角斜面的最大角度（度）
+const MAX_CHAMFER_ANGLE = 89;
+
+/**
+ * 轮廓阶段的结果：透明度通道、内部区域掩码和亚像素轮廓
+ */
+export interface ContourStage {
+  alpha: Uint8Array;
+  inside: Uint8Array;
+  contours: Contour[];
+}
+
+// 一层区域的距离场：区域内像素到该区域外轮廓和孔洞的距离（像素）
+interface DistanceLayer {
+  region: Uint8Array;
+  rise: number | null; // 该层台阶的落差（mm），null 表示整个浮雕高度
+  outerDistances: Float32Array;
+  holeDistances: Float32Array | null;
+}
+
+/**
+ * 距离场阶段的结果：普通模式只有一层，分层浮雕每一级台阶一层
+ */
+export interface DistanceStage {
+  layers: DistanceLayer[];
+  terraced: boolean;
+  clusters: ColorCluster[]; // 分层浮雕的颜色层（按亮度从暗到亮），界面据此显示每层的色块
 }
 
 /**
  * 处理图像，添加边缘效果
+ * 依次执行轮廓、距离场和剖面三个阶段，各阶段也可单独调用以便缓存中间结果
  */
 export function processImageWithEdges(
   sourceImageData: ImageData, 
-  options: EdgeProcessorOptions
-): ImageData {
-  const { width, height, data } = sourceImageData;
-  const result = new ImageData(width, height);
+  options: EdgeProcessorOptions,
+  onProgress?: ProcessingProgressCallback
+): DepthField {
+  const { width, height } = sourceImageData;
+  console.log(`开始处理图像: ${width}x${height}, 边缘类型: ${options.edgeType}, 边缘宽度: ${options.edgeWidth}mm`);
+  
+  onProgress?.('contour');
+  const contour = extractContours(sourceImageData, options.contourAlpha ?? DEFAULT_CONTOUR_ALPHA);
+  onProgress?.('distance');
+  const distance = calculateDistanceFields(sourceImageData, contour, options);
+  onProgress?.('depth');
+  const result = applyEdgeProfile(sourceImageData, contour, distance, options);
+  
+  console.log('图像处理完成');
+  return result;
+}
+
+/**
+ * 轮廓阶段：提取透明度等值线，只依赖图像和轮廓透明度
+ */
+export function extractContours(imageData: ImageData, contourAlpha: number): ContourStage {
+  const { alpha, inside } = extractSmartContour(imageData, contourAlpha);
+  return { alpha, inside, contours: traceContours(alpha, imageData.width, imageData.height, contourAlpha) };
+}
+
+/**
+ * 距离场阶段：所有边缘类型共用精确距离场，以像素计算，与边缘剖面参数无关
+ * 分层浮雕中高度不低于第 k 级的像素构成区域 R_k，每个区域单独计算距离场
+ */
+export function calculateDistanceFields(imageData: ImageData, contour: ContourStage, options: EdgeProcessorOptions): DistanceStage {
+  const { width, height } = imageData;
+  const { alpha, inside, contours } = contour;
   
-  console.log(`开始处理图像: ${width}x${height}, 边缘类型: ${options.edgeType}, 边缘宽度: ${options.edgeWidth}`);
+  if (!options.terraces?.enabled) {
+    return { layers: [createDistanceLayer(contours, inside, width, height, null)], terraced: false, clusters: [] };
+  }
   
-  // 根据边缘类型选择不同的处理方式
-  if (options.edgeType === 'vertical') {
-    // 垂直边缘：简单的透明度判断，不需要距离场
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const index = (y * width + x) * 4;
-        const originalAlpha = data[index + 3];
-        
-        let depth = 0;
-        let outputAlpha = originalAlpha;
-        
-        if (originalAlpha > 32) {
-          // 不透明像素 = 满高度（垂直边缘）
-          depth = 255;
-        } else {
-          // 透明像素 = 底面
-          depth = 0;
-          outputAlpha = 0;
-        }
-        
-        result.data[index] = depth;         // R
-        result.data[index + 1] = depth;     // G
-        result.data[index + 2] = depth;     // B
-        result.data[index + 3] = outputAlpha; // A
-      }
+  const terraces = options.terraces;
+  const contourAlpha = options.contourAlpha ?? DEFAULT_CONTOUR_ALPHA;
+  const clusters = findColorClusters(imageData, inside, terraces.levelCount, terraces.quantizeMode);
+  const assignments = assignClusters(imageData, inside, clusters, terraces.quantizeMode);
+  const levelHeights = resolveTerraceHeights(terraces, options.modelHeight);
+  
+  const steps = Array.from(new Set(clusters.map((_, level) => levelHeights[level])))
+    .filter(stepHeight => stepHeight > 0)
+    .sort((a, b) => a - b);
+  console.log(`分层浮雕: ${clusters.length} 个颜色层，台阶高度 ${steps.map(h => h.toFixed(2)).join(' / ')}mm`);
+  
+  const layers: DistanceLayer[] = [];
+  const regionAlpha = new Uint8Array(width * height);
+  let previousHeight = 0;
+  
+  for (const stepHeight of steps) {
+    const region = new Uint8Array(width * height);
+    for (let i = 0; i < width * height; i++) {
+      region[i] = inside[i] && levelHeights[assignments[i]] >= stepHeight ? 1 : 0;
+      regionAlpha[i] = region[i] ? alpha[i] : 0;
     }
-  } else {
-    // 圆角和切角需要距离场计算
-    const contour = extractSmartContour(sourceImageData);
-    const distanceField = calculateDistanceFieldFast(contour, width, height, options.edgeWidth);
     
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const index = (y * width + x) * 4;
-        const distance = distanceField[y * width + x];
-        const originalAlpha = data[index + 3];
-        
-        let depth = 0;
-        let outputAlpha = originalAlpha;
+    // 区域与透明边界重合处沿用亚像素等值线；剖面的竖直尺度为该级台阶的落差
+    const regionContours = traceContours(regionAlpha, width, height, contourAlpha);
+    layers.push(createDistanceLayer(regionContours, region, width, height, stepHeight - previousHeight));
+    previousHeight = stepHeight;
+  }
+  
+  return { layers, terraced: true, clusters };
+}
+
+/**
+ * 剖面阶段：把距离换算为毫米并施加边缘剖面，混合原图灰度，输出浮点深度场
+ * 深度不做取整（0-255 浮点），透明度保留原值，网格据此重建亚像素轮廓
+ */
+export function applyEdgeProfile(
+  sourceImageData: ImageData,
+  contour: ContourStage,
+  distance: DistanceStage,
+  options: EdgeProcessorOptions
+): DepthField {
+  const { width, height, data } = sourceImageData;
+  const { inside } = contour;
+  const result = createDepthField(width, height);
+  const relief = options.luminanceRelief?.blendMode !== 'none' ? options.luminanceRelief : undefined;
+  const depths = distance.terraced
+    ? calculateTerraceDepths(distance.layers, width * height, options)
+    : calculateLayerDepths(distance.layers[0], width * height, options);
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+      
+      let depth = 0;
+      
+      if (inside[y * width + x]) {
+        // 等值线内部的区域
+        depth = depths[y * width + x];
         
-        if (originalAlpha > 32 && distance >= 0) {
-          // 内部区域且不透明
-          switch (options.edgeType) {
-            case 'rounded':
-              depth = calculateRoundedDepth(distance, options.edgeWidth);
-              break;
-            case 'chamfered':
-              depth = calculateChamferedDepth(distance, options.edgeWidth, options.chamferAngle || 45);
-              break;
-          }
-        } else if (originalAlpha <= 32) {
-          // 透明区域保持透明
-          depth = 0;
-          outputAlpha = 0;
+        if (relief) {
+          depth = blendLuminanceRelief(depth, data[index], data[index + 1], data[index + 2], relief);
         }
-        
-        result.data[index] = depth;         // R
-        result.data[index + 1] = depth;     // G
-        result.data[index + 2] = depth;     // B
-        result.data[index + 3] = outputAlpha; // A
       }
+      
+      result.depth[y * width + x] = depth;
+      result.alpha[y * width + x] = data[index + 3]; // 保留原始透明度，网格据此重建亚像素轮廓
     }
   }
   
-  console.log('图像处理完成');
+  fillAntialiasedFringe(result, inside);
   return result;
 }
 
 /**
- * 智能提取轮廓（支持透明PNG，透明区域被忽略）
+ * 按外轮廓和孔洞分别计算区域的距离场
  */
-function extractSmartContour(imageData: ImageData): boolean[] {
-  const { width, height, data } = imageData;
-  const contour = new Array(width * height);
-  
-  // 简化逻辑：只要像素不透明就认为是内部区域
-  for (let i = 0; i < data.length; i += 4) {
-    // const r = data[i];
-    // const g = data[i + 1];
-    // const b = data[i + 2];
-    const a = data[i + 3];
+function createDistanceLayer(
+  contours: Contour[],
+  region: Uint8Array,
+  width: number,
+  height: number,
+  rise: number | null
+): DistanceLayer {
+  const outerContours = contours.filter(contour => !contour.isHole);
+  const holeContours = contours.filter(contour => contour.isHole);
+  
+  return {
+    region,
+    rise,
+    outerDistances: calculateDistanceField(outerContours, region, width, height),
+    holeDistances: holeContours.length > 0 ? calculateDistanceField(holeContours, region, width, height) : null
+  };
+}
+
+/**
+ * 按外轮廓和孔洞分别施加边缘剖面，返回区域内像素的深度值（0-255 浮点）
+ * 像素高度取两种剖面中较低者；设置相同时等价于到最近轮廓的距离
+ */
+function calculateLayerDepths(layer: DistanceLayer, pixelCount: number, options: EdgeProcessorOptions): Float32Array {
+  const { region, outerDistances, holeDistances } = layer;
+  const modelHeight = layer.rise ?? options.modelHeight;
+  
+  const outerDepth = createEdgeDepthFunction({ ...options, modelHeight });
+  const holeDepth = createEdgeDepthFunction({
+    ...options,
+    modelHeight,
+    edgeType: options.holeEdgeType ?? options.edgeType,
+    edgeWidth: options.holeEdgeWidth ?? options.edgeWidth
+  });
+  
+  const depths = new Float32Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    if (!region[i]) continue;
     
-    // 透明度大于阈值的像素认为是内部区域
-    contour[i / 4] = a > 32; // 几乎不透明的像素才被认为是内部
+    depths[i] = outerDepth(outerDistances[i] * options.mmPerPixel);
+    if (holeDistances) {
+      depths[i] = Math.min(depths[i], holeDepth(holeDistances[i] * options.mmPerPixel));
+    }
+  }
+  return depths;
+}
+
+/**
+ * 按边缘类型生成深度函数：输入离轮廓的距离（mm），返回深度值（0-255）
+ */
+function createEdgeDepthFunction(options: EdgeProcessorOptions): (distance: number) => number {
+  const profile = getEdgeProfile(options);
+  
+  switch (options.edgeType) {
+    case 'vertical':
+      return () => 255; // 垂直边缘：满高度
+    case 'rounded': {
+      const verticalRadius = options.roundedVerticalRadius ?? options.modelHeight;
+      return (distance) => calculateRoundedDepth(distance, options.edgeWidth, verticalRadius, options.modelHeight);
+    }
+    case 'chamfered':
+      return (distance) => calculateChamferedDepth(distance, options.edgeWidth, options.chamferAngle ?? 45, options.modelHeight);
+    default:
+      return (distance) => calculateProfileDepth(distance, options.edgeWidth, profile!);
+  }
+}
+
+/**
+ * 各层的高度（mm），未指定的层按亮度从暗到亮均匀分布，并限制在浮雕高度以内
+ */
+export function resolveTerraceHeights(terraces: TerraceOptions, modelHeight: number): number[] {
+  return Array.from({ length: terraces.levelCount }, (_, level) => {
+    const height = terraces.levelHeights[level] ?? ((level + 1) / terraces.levelCount) * modelHeight;
+    return Math.max(0, Math.min(modelHeight, height));
+  });
+}
+
+/**
+ * 分层浮雕深度 - 每一级高度变化都视为一个独立的台阶
+ * 每个区域 R_k 的轮廓上施加高度为该级落差的边缘剖面，各级台阶叠加得到最终高度
+ */
+function calculateTerraceDepths(layers: DistanceLayer[], pixelCount: number, options: EdgeProcessorOptions): Float32Array {
+  const heightsMm = new Float32Array(pixelCount);
+  
+  for (const layer of layers) {
+    const rise = layer.rise ?? options.modelHeight;
+    const stepDepths = calculateLayerDepths(layer, pixelCount, options);
+    for (let i = 0; i < pixelCount; i++) {
+      if (!layer.region[i]) continue;
+      heightsMm[i] += (stepDepths[i] / 255) * rise;
+    }
   }
   
-  // 统计内部像素数量
-  const insidePixels = contour.filter(Boolean).length;
-  console.log(`轮廓提取完成: ${insidePixels}/${contour.length} 像素为内部区域`);
-  
-  return contour;
+  const depths = new Float32Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    depths[i] = (heightsMm[i] / options.modelHeight) * 255;
+  }
+  return depths;
 }
 
 /**
- * 快速距离场计算 - 优化性能版本，确保边缘像素距离为0
+ * 等值线外侧的半透明像素取相邻内部像素的最大深度
+ * 放大和平滑时这些像素会参与插值，避免等值线内侧混入外部的零深度
  */
-function calculateDistanceFieldFast(contour: boolean[], width: number, height: number, maxDistance: number): number[] {
-  const distances = new Array(width * height).fill(-1);
-  const queue: Array<{x: number, y: number, dist: number}> = [];
-  let edgePixelCount = 0;
+function fillAntialiasedFringe(field: DepthField, inside: Uint8Array): void {
+  const { width, height, depth: depths, alpha } = field;
   
-  // 首先找到所有边缘像素，作为距离计算的起点
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
       const index = y * width + x;
+      if (inside[index] || alpha[index] === 0) continue;
       
-      if (contour[index]) { // 不透明像素
-        // 检查是否为边缘像素（不透明像素且邻接透明像素或图像边界）
-        let isEdge = false;
-        
-        // 检查8个邻居
-        for (let dy = -1; dy <= 1; dy++) {
-          for (let dx = -1; dx <= 1; dx++) {
-            if (dx === 0 && dy === 0) continue;
-            
-            const nx = x + dx;
-            const ny = y + dy;
-            
-            if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-              const nIndex = ny * width + nx;
-              if (!contour[nIndex]) { // 邻接透明像素
-                isEdge = true;
-                break;
-              }
-            } else {
-              // 图像边界也算边缘
-              isEdge = true;
-              break;
-            }
-          }
-          if (isEdge) break;
-        }
-        
-        if (isEdge) {
-          distances[index] = 0; // 边缘像素距离确实为0
-          queue.push({x, y, dist: 0});
-          edgePixelCount++;
-        } else {
-          distances[index] = maxDistance; // 内部非边缘像素先设为最大距离
+      let depth = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || nx >= width || ny < 0 || ny >= height || !inside[ny * width + nx]) continue;
+          depth = Math.max(depth, depths[ny * width + nx]);
         }
       }
-      // 透明像素保持 -1（不处理）
+      
+      depths[index] = depth;
+    }
+  }
+}
+
+/**
+ * 智能提取轮廓（支持透明PNG，透明区域被忽略）
+ * 返回透明度通道和内部区域掩码，透明度大于等于 contourAlpha 的像素为内部
+ */
+function extractSmartContour(imageData: ImageData, contourAlpha: number): { alpha: Uint8Array; inside: Uint8Array } {
+  const { width, height, data } = imageData;
+  const alpha = new Uint8Array(width * height);
+  const inside = new Uint8Array(width * height);
+  let insidePixels = 0;
+  
+  for (let i = 0; i < width * height; i++) {
+    alpha[i] = data[i * 4 + 3];
+    if (alpha[i] >= contourAlpha) {
+      inside[i] = 1;
+      insidePixels++;
     }
   }
   
-  console.log(`找到 ${edgePixelCount} 个边缘像素，开始距离场计算`);
+  console.log(`轮廓提取完成: ${insidePixels}/${inside.length} 像素为内部区域`);
   
-  // 使用广度优先搜索计算距离场
-  let queueIndex = 0;
-  while (queueIndex < queue.length) {
-    const {x, y, dist} = queue[queueIndex++];
-    
-    if (dist >= maxDistance) continue;
+  return { alpha, inside };
+}
+
+/**
+ * 精确距离场计算 - 每个内部像素中心到亚像素轮廓的欧几里得距离（像素），外部像素为 -1
+ * 轮廓线段所在单元格的四个像素作为种子，记录离各自最近的线段；
+ * 距离变换找到最近的种子后，再精确计算到该种子及其相邻种子所记录线段的距离
+ */
+function calculateDistanceField(contours: Contour[], inside: Uint8Array, width: number, height: number): Float32Array {
+  // 四周各扩展一个像素，与等值线提取时图像边界外视为透明一致
+  const paddedWidth = width + 2;
+  const paddedHeight = height + 2;
+  const sites = new Uint8Array(paddedWidth * paddedHeight);
+  const siteSegment = new Int32Array(paddedWidth * paddedHeight).fill(-1);
+  const siteDistance = new Float32Array(paddedWidth * paddedHeight);
+  
+  const segments: number[] = [];
+  for (const { points } of contours) {
+    for (let i = 0; i < points.length; i += 2) {
+      const j = (i + 2) % points.length;
+      segments.push(points[i], points[i + 1], points[j], points[j + 1]);
+    }
+  }
+  
+  const distanceToSegment = (px: number, py: number, segment: number): number => {
+    const x0 = segments[segment * 4];
+    const y0 = segments[segment * 4 + 1];
+    const dx = segments[segment * 4 + 2] - x0;
+    const dy = segments[segment * 4 + 3] - y0;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((px - x0) * dx + (py - y0) * dy) / lengthSquared)) : 0;
+    return Math.hypot(px - (x0 + t * dx), py - (y0 + t * dy));
+  };
+  
+  for (let segment = 0; segment < segments.length / 4; segment++) {
+    // 线段中点所在的单元格，单元格角点为像素中心
+    const cellX = Math.floor((segments[segment * 4] + segments[segment * 4 + 2]) / 2 - 0.5);
+    const cellY = Math.floor((segments[segment * 4 + 1] + segments[segment * 4 + 3]) / 2 - 0.5);
     
-    // 检查8个邻居
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        if (dx === 0 && dy === 0) continue;
+    for (let dy = 0; dy <= 1; dy++) {
+      for (let dx = 0; dx <= 1; dx++) {
+        const x = cellX + dx;
+        const y = cellY + dy;
+        const paddedIndex = (y + 1) * paddedWidth + (x + 1);
+        const distance = distanceToSegment(x + 0.5, y + 0.5, segment);
         
-        const nx = x + dx;
-        const ny = y + dy;
-        
-        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-          const nIndex = ny * width + nx;
+        if (!sites[paddedIndex] || distance < siteDistance[paddedIndex]) {
+          sites[paddedIndex] = 1;
+          siteSegment[paddedIndex] = segment;
+          siteDistance[paddedIndex] = distance;
+        }
+      }
+    }
+  }
+  
+  const distances = new Float32Array(width * height).fill(-1);
+  if (segments.length === 0) {
+    // 没有这类轮廓，内部像素离边缘无限远
+    for (let i = 0; i < width * height; i++) {
+      if (inside[i]) distances[i] = Infinity;
+    }
+    return distances;
+  }
+  
+  const { nearest } = euclideanDistanceTransform(sites, paddedWidth, paddedHeight);
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!inside[y * width + x]) continue;
+      
+      const site = nearest[(y + 1) * paddedWidth + (x + 1)];
+      const siteX = site % paddedWidth;
+      const siteY = Math.floor(site / paddedWidth);
+      
+      let best = Infinity;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = siteX + dx;
+          const ny = siteY + dy;
+          if (nx < 0 || nx >= paddedWidth || ny < 0 || ny >= paddedHeight) continue;
           
-          if (contour[nIndex]) { // 只处理不透明像素
-            // 计算距离（使用欧几里得距离）
-            const newDist = dist + Math.sqrt(dx * dx + dy * dy);
-            
-            if (newDist < distances[nIndex] && newDist <= maxDistance) {
-              distances[nIndex] = newDist;
-              queue.push({x: nx, y: ny, dist: newDist});
-            }
+          const segment = siteSegment[ny * paddedWidth + nx];
+          if (segment >= 0) {
+            best = Math.min(best, distanceToSegment(x + 0.5, y + 0.5, segment));
           }
         }
       }
+      
+      distances[y * width + x] = best;
     }
   }
   
-  console.log(`距离场计算完成，处理了 ${queue.length} 个像素`);
+  console.log(`距离场计算完成: ${width}x${height}，${segments.length / 4} 条轮廓线段`);
   return distances;
 }
 
 /**
- * 计算圆角深度值 - 修复版本，真正的向内凹圆角
+ * 计算圆角深度值 - 四分之一椭圆，水平半径为边缘宽度，竖直半径自顶面向下计
+ * 竖直半径小于浮雕高度时圆角下方保留竖直侧壁（与CNC圆角刀加工的效果一致），
+ * 大于浮雕高度时椭圆在底面截断。distance、edgeWidth、verticalRadius、modelHeight 均为毫米
  */
-function calculateRoundedDepth(distance: number, edgeWidth: number): number {
+function calculateRoundedDepth(distance: number, edgeWidth: number, verticalRadius: number, modelHeight: number): number {
   if (distance >= edgeWidth) {
     return 255; // 完全高度
   }
   
-  // 使用真正的圆形函数创建向内凹的圆角
-  const t = distance / edgeWidth; // 0到1的归一化距离
-  
-  // 圆角公式：对于半径为1的四分之一圆
-  // 在距离边缘t处，圆的高度为：h = 1 - sqrt(1 - t²)
-  // 但我们要的是向内凹的圆角，所以使用：h = sqrt(1 - (1-t)²)
+  // 在距离边缘 t 处（归一化），椭圆弧低于顶面 r·(1 - sqrt(1 - (1-t)²))
+  const t = distance / edgeWidth;
   const circularT = Math.sqrt(1 - (1 - t) * (1 - t));
+  const heightMm = modelHeight - verticalRadius * (1 - circularT);
   
-  const depth = Math.floor(circularT * 255);
+  const depth = (heightMm / modelHeight) * 255;
   return Math.max(0, Math.min(255, depth));
 }
 
 /**
- * 计算切角深度值 - 正确的基于垂直面的切角算法
- * 切角是从垂直边缘的顶部按照指定角度向内倾斜
+ * 计算切角深度值 - 斜面与水平面的夹角严格等于切角角度
+ * 斜面从顶面向外下降 edgeWidth·tan(angle)：超过浮雕高度时在底面截断，
+ * 不足浮雕高度时斜面下方保留竖直侧壁。distance、edgeWidth、modelHeight 均为毫米
+ * 角度限制在 0°（水平，只剩竖直侧壁）到 MAX_CHAMFER_ANGLE 之间，避免 tan 在 90° 处发散
  */
-function calculateChamferedDepth(distance: number, edgeWidth: number, angle: number): number {
+function calculateChamferedDepth(distance: number, edgeWidth: number, angle: number, modelHeight: number): number {
   if (distance >= edgeWidth) {
-    return 255; // 完全高度 - 超出切角范围的内部区域保持垂直
+    return 255; // 完全高度 - 超出切角范围的内部区域
   }
   
-  // 切角计算：从边缘开始，按照角度从顶部向下切
-  // distance=0 是外边缘，应该是底面高度(0)
-  // distance=edgeWidth 是切角内边界，应该达到全高度(255)
-  
-  // 根据切角角度计算斜面
-  const angleRad = (angle * Math.PI) / 180;
-  
-  // 计算在当前距离处的高度
-  // 使用正切函数：height = distance * tan(angle)
-  // 但需要标准化到合适的比例
-  const maxHeight = edgeWidth * Math.tan(angleRad);
-  const currentHeight = distance * Math.tan(angleRad);
-  
-  // 将高度标准化到0-255范围
-  // 如果计算出的最大高度超过了我们想要的高度，就进行缩放
-  let normalizedHeight;
-  if (maxHeight > edgeWidth) {
-    // 角度较大，需要缩放以适应edgeWidth
-    normalizedHeight = (currentHeight / maxHeight) * 255;
-  } else {
-    // 角度较小，直接按比例计算
-    normalizedHeight = (currentHeight / edgeWidth) * 255;
+  const clampedAngle = Number.isFinite(angle) ? Math.max(0, Math.min(MAX_CHAMFER_ANGLE, angle)) : 45;
+  const slope = Math.tan((clampedAngle * Math.PI) / 180);
+  const heightMm = modelHeight - (edgeWidth - distance) * slope;
+  
+  const depth = (heightMm / modelHeight) * 255;
+  return Math.max(0, Math.min(255, depth));
+}
+
+/**
+ * 线脚剖面：输入离边缘的归一化距离 t（0 = 轮廓，1 = 边缘宽度处），返回归一化高度
+ * 垂直、圆角和切角边缘单独计算，返回 null
+ */
+function getEdgeProfile(options: EdgeProcessorOptions): ((t: number) => number) | null {
+  switch (options.edgeType) {
+    case 'cove':
+      return coveProfile;
+    case 'ogee': {
+      const balance = Math.max(0.05, Math.min(0.95, options.ogeeBalance ?? 0.5));
+      return (t) => ogeeProfile(t, balance);
+    }
+    case 'bead': {
+      const filletRatio = Math.max(0, Math.min(0.9, options.beadFilletRatio ?? 0.2));
+      return (t) => filletRatio + (1 - filletRatio) * roundoverProfile(t);
+    }
+    case 'stepped': {
+      const steps = Math.max(1, Math.round(options.stepCount ?? 3));
+      return (t) => Math.min(1, (Math.floor(t * steps) + 1) / steps);
+    }
+    case 'custom':
+      return createProfileLookup(options.profileCurve ?? DEFAULT_PROFILE_CURVE);
+    default:
+      return null;
+  }
+}
+
+/**
+ * 凸圆弧（与圆角边缘相同的四分之一圆）
+ */
+function roundoverProfile(t: number): number {
+  return Math.sqrt(Math.max(0, 1 - (1 - t) * (1 - t)));
+}
+
+/**
+ * 凹圆弧：从轮廓处贴着底面起步，在边缘宽度处竖直到达顶面
+ */
+function coveProfile(t: number): number {
+  return 1 - Math.sqrt(Math.max(0, 1 - t * t));
+}
+
+/**
+ * 反曲线：拐点之前为凹圆弧，之后为凸圆弧，两段在拐点处切线均竖直，整体呈 S 形
+ */
+function ogeeProfile(t: number, balance: number): number {
+  if (t < balance) {
+    return balance * coveProfile(t / balance);
+  }
+  return balance + (1 - balance) * roundoverProfile((t - balance) / (1 - balance));
+}
+
+/**
+ * 按剖面计算深度值 - 按离边缘的归一化距离在剖面上取归一化高度
+ */
+function calculateProfileDepth(distance: number, edgeWidth: number, profile: (t: number) => number): number {
+  if (distance >= edgeWidth) {
+    return profile(1) * 255; // 超出边缘宽度，保持剖面末端高度
   }
   
-  // 确保高度在合理范围内
-  const depth = Math.floor(Math.max(0, Math.min(255, normalizedHeight)));
+  const depth = profile(distance / edgeWidth) * 255;
+  return Math.max(0, Math.min(255, depth));
+}
+
+/**
+ * 将原图亮度映射为高度并与边缘剖面深度混合
+ * multiply 让剖面按比例压低灰度浮雕，min 取两者较低者，add 叠加后截断到满高度，
+ * addScaled 叠加后按两者之和的最大值（1 + 最亮处高度）缩放，剖面整体降低，但到顶的内部区域保留灰度起伏
+ */
+function blendLuminanceRelief(depth: number, r: number, g: number, b: number, relief: LuminanceReliefOptions): number {
+  // Rec.709 亮度
+  let luminance = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+  if (relief.invert) {
+    luminance = 1 - luminance;
+  }
+  luminance = Math.pow(luminance, Math.max(0.01, relief.gamma));
+  
+  const reliefHeight = relief.rangeMin + (relief.rangeMax - relief.rangeMin) * luminance;
+  const edgeHeight = depth / 255;
+  
+  let height: number;
+  switch (relief.blendMode) {
+    case 'multiply':
+      height = edgeHeight * reliefHeight;
+      break;
+    case 'min':
+      height = Math.min(edgeHeight, reliefHeight);
+      break;
+    case 'add':
+      height = Math.min(1, edgeHeight + reliefHeight);
+      break;
+    case 'addScaled':
+      height = (edgeHeight + reliefHeight) / (1 + Math.max(0, relief.rangeMax));
+      break;
+    default:
+      height = edgeHeight;
+  }
   
-  return depth;
+  return Math.max(0, Math.min(255, height * 255));
 }
 
 /**
@@ -282,88 +618,52 @@ export function imageDataToDataURL(imageData: ImageData): string {
 }
 
 /**
- * 专门针对深度图的DPI优化处理
- * 使用保边缘的放大算法，然后重新采样回原尺寸，确保物理尺寸一致
- */
-export function optimizeDepthMapDPI(imageData: ImageData, targetDPI: number = 300, originalDPI?: number, enableEdgeSmoothing: boolean = true, smoothingStrength: number = 0.6): ImageData {
-  // 如果没有提供原始DPI，估算当前DPI
-  const currentDPI = originalDPI || estimateDepthMapDPI(imageData);
-  
-  console.log(`深度图DPI检测: 当前 ${currentDPI} DPI, 目标 ${targetDPI} DPI`);
-  console.log(`图像尺寸: ${imageData.width}x${imageData.height} (${imageData.width * imageData.height} 像素)`);
-  
-  // 降低低分辨率检测阈值，让更多图像能被检测到
-  const isLowResolution = imageData.width * imageData.height < 100000; // 小于100K像素 (约316x316)
-  console.log(`低分辨率检测: ${isLowResolution ? '是' : '否'}`);
-  
-  // 强制应用边缘平滑（用于测试）
-  if (enableEdgeSmoothing) {
-    console.log('应用边缘平滑算法...');
-    const smoothedImageData = intelligentEdgeSmoothing(imageData, smoothingStrength);
-    
-    // 如果不需要DPI优化，直接返回平滑结果
-    if (currentDPI >= targetDPI) {
-      console.log('DPI已达标，返回边缘平滑结果');
-      return smoothedImageData;
-    }
-    
-    // 继续DPI优化流程
-    console.log('继续DPI优化流程...');
-    return performDPIOptimization(smoothedImageData, targetDPI, currentDPI);
-  }
-  
-  // 高分辨率图像的常规处理
-  if (currentDPI >= targetDPI) {
-    console.log('深度图DPI已达标，无需优化');
-    return imageData;
-  }
-  
-  return performDPIOptimization(imageData, targetDPI, currentDPI);
-}
-
-/**
- * 执行DPI优化的核心流程
+ * 执行DPI优化的核心流程（放大阶段），仅在当前DPI低于目标DPI时调用
  * 保持优化后的高分辨率，不重新采样回原尺寸
  */
-function performDPIOptimization(imageData: ImageData, targetDPI: number, currentDPI: number): ImageData {
-  // 计算放大倍数
-  const scaleFactor = targetDPI / currentDPI;
+export function performDPIOptimization(depthField: DepthField, targetDPI: number, currentDPI: number): DepthField {
+  // 计算放大倍数，限制放大后的总像素数
+  const maxScaleFactor = Math.sqrt(MAX_OPTIMIZED_PIXELS / (depthField.width * depthField.height));
+  const scaleFactor = Math.min(targetDPI / currentDPI, maxScaleFactor);
+  if (scaleFactor < targetDPI / currentDPI) {
+    console.warn(`⚠️ 放大后像素过多，放大倍数限制为 ${scaleFactor.toFixed(2)}x`);
+  }
   console.log(`🎯 DPI优化开始:`);
   console.log(`  当前DPI: ${currentDPI.toFixed(1)} → 目标DPI: ${targetDPI}`);
   console.log(`  放大倍数: ${scaleFactor.toFixed(2)}x`);
-  console.log(`  原始尺寸: ${imageData.width}×${imageData.height}`);
+  console.log(`  原始尺寸: ${depthField.width}×${depthField.height}`);
   
   // 使用保边缘的放大算法放大到目标DPI
-  const enlargedImageData = edgePreservingUpscale(imageData, scaleFactor);
+  const enlarged = edgePreservingUpscale(depthField, scaleFactor);
   
   console.log(`✅ DPI优化完成:`);
-  console.log(`  优化后尺寸: ${enlargedImageData.width}×${enlargedImageData.height}`);
-  console.log(`  像素增加: ${((enlargedImageData.width * enlargedImageData.height) / (imageData.width * imageData.height)).toFixed(1)}倍`);
+  console.log(`  优化后尺寸: ${enlarged.width}×${enlarged.height}`);
+  console.log(`  像素增加: ${((enlarged.width * enlarged.height) / (depthField.width * depthField.height)).toFixed(1)}倍`);
   console.log(`  💡 高分辨率图像将在3D建模时映射到原始物理尺寸`);
   
-  // 直接返回高分辨率图像，不重新采样
-  return enlargedImageData;
+  // 直接返回高分辨率深度场，不重新采样
+  return enlarged;
 }
 
 /**
- * 智能边缘平滑算法
+ * 智能边缘平滑算法（平滑阶段）
  * 专门处理低分辨率深度图的锯齿边缘问题
  */
-function intelligentEdgeSmoothing(imageData: ImageData, smoothingStrength: number = 0.6): ImageData {
-  const { width, height, data } = imageData;
-  const result = new ImageData(width, height);
+export function intelligentEdgeSmoothing(depthField: DepthField, smoothingStrength: number = 0.6): DepthField {
+  const { width, height, depth, alpha } = depthField;
+  const result = createDepthField(width, height);
   
   console.log('开始智能边缘平滑处理...');
   console.log(`平滑参数: 强度=${smoothingStrength}, 尺寸=${width}x${height}`);
   
-  // 复制原始数据
-  result.data.set(data);
+  // 复制原始数据，透明度保持不变
+  result.depth.set(depth);
+  result.alpha.set(alpha);
   
   // 获取像素值的函数
   const getPixelValue = (x: number, y: number): number => {
     if (x < 0 || x >= width || y < 0 || y >= height) return 0;
-    const index = (y * width + x) * 4;
-    return data[index]; // 使用R通道作为深度值
+    return depth[y * width + x];
   };
   
   // 降低边缘检测阈值，让更多边缘被检测到
@@ -464,26 +764,21 @@ function intelligentEdgeSmoothing(imageData: ImageData, smoothingStrength: numbe
   for (let iteration = 0; iteration < iterationCount; iteration++) {
     console.log(`边缘平滑迭代 ${iteration + 1}/${iterationCount}`);
     
-    const tempData = new Uint8ClampedArray(result.data);
+    const tempDepth = new Float32Array(result.depth);
     let iterationProcessed = 0;
     
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
         if (isEdgePixel(x, y)) {
           const smoothValue = getSmoothValue(x, y);
-          const index = (y * width + x) * 4;
+          const index = y * width + x;
           
           // 增强平滑效果，使用非线性混合
-          const originalValue = tempData[index];
+          const originalValue = tempDepth[index];
           
           // 使用指数函数增强平滑效果的可见性
           const enhancedStrength = Math.pow(smoothingStrength, 0.5); // 让效果更明显
-          const finalValue = originalValue * (1 - enhancedStrength) + smoothValue * enhancedStrength;
-          
-          result.data[index] = Math.round(finalValue);
-          result.data[index + 1] = Math.round(finalValue);
-          result.data[index + 2] = Math.round(finalValue);
-          result.data[index + 3] = tempData[index + 3]; // 保持Alpha通道
+          result.depth[index] = originalValue * (1 - enhancedStrength) + smoothValue * enhancedStrength;
           
           iterationProcessed++;
         }
@@ -498,48 +793,28 @@ function intelligentEdgeSmoothing(imageData: ImageData, smoothingStrength: numbe
 }
 
 /**
- * 估算深度图DPI - 基于常见的深度图使用场景
- */
-function estimateDepthMapDPI(imageData: ImageData): number {
-  const { width, height } = imageData;
-  const totalPixels = width * height;
-  
-  // 基于像素总数和常见深度图尺寸估算DPI
-  if (totalPixels < 100000) { // 小于100K像素，假设为低分辨率
-    return 72;
-  } else if (totalPixels < 400000) { // 小于400K像素，假设为中等分辨率
-    return 150;
-  } else if (totalPixels < 1000000) { // 小于1M像素，假设为较高分辨率
-    return 200;
-  } else {
-    return 300; // 大于1M像素，假设已经是高分辨率
-  }
-}
-
-/**
- * 保边缘的图像放大算法
+ * 保边缘的深度场放大算法
  * 专门为深度图设计，保持边缘清晰度和深度值精确性
  */
-function edgePreservingUpscale(imageData: ImageData, scaleFactor: number): ImageData {
-  const { width, height, data } = imageData;
+function edgePreservingUpscale(depthField: DepthField, scaleFactor: number): DepthField {
+  const { width, height, depth, alpha } = depthField;
   const newWidth = Math.round(width * scaleFactor);
   const newHeight = Math.round(height * scaleFactor);
   
   console.log(`保边缘放大: ${width}x${height} -> ${newWidth}x${newHeight}`);
   
-  const result = new ImageData(newWidth, newHeight);
+  const result = createDepthField(newWidth, newHeight);
   
-  // 获取原图像中指定位置的像素值
-  const getPixel = (x: number, y: number, channel: number): number => {
+  // 获取原深度场中指定位置的深度或透明度
+  const getPixel = (x: number, y: number, channel: ArrayLike<number>): number => {
     const clampedX = Math.max(0, Math.min(width - 1, Math.floor(x)));
     const clampedY = Math.max(0, Math.min(height - 1, Math.floor(y)));
-    const index = (clampedY * width + clampedX) * 4 + channel;
-    return data[index];
+    return channel[clampedY * width + clampedX];
   };
   
   // 检查是否为边缘像素
   const isEdgePixel = (x: number, y: number): boolean => {
-    const centerValue = getPixel(x, y, 0); // 使用R通道作为深度值
+    const centerValue = getPixel(x, y, depth);
     const threshold = 10; // 深度差异阈值
     
     // 检查8个邻居
@@ -547,7 +822,7 @@ function edgePreservingUpscale(imageData: ImageData, scaleFactor: number): Image
       for (let dx = -1; dx <= 1; dx++) {
         if (dx === 0 && dy === 0) continue;
         
-        const neighborValue = getPixel(x + dx, y + dy, 0);
+        const neighborValue = getPixel(x + dx, y + dy, depth);
         if (Math.abs(centerValue - neighborValue) > threshold) {
           return true; // 发现明显的深度差异，认为是边缘
         }
@@ -556,6 +831,26 @@ function edgePreservingUpscale(imageData: ImageData, scaleFactor: number): Image
     return false;
   };
   
+  // 双线性插值
+  const getBilinear = (srcX: number, srcY: number, channel: ArrayLike<number>): number => {
+    const x1 = Math.floor(srcX);
+    const y1 = Math.floor(srcY);
+    const x2 = Math.min(x1 + 1, width - 1);
+    const y2 = Math.min(y1 + 1, height - 1);
+    
+    const fx = srcX - x1;
+    const fy = srcY - y1;
+    
+    const v11 = getPixel(x1, y1, channel);
+    const v12 = getPixel(x1, y2, channel);
+    const v21 = getPixel(x2, y1, channel);
+    const v22 = getPixel(x2, y2, channel);
+    
+    const v1 = v11 * (1 - fx) + v21 * fx;
+    const v2 = v12 * (1 - fx) + v22 * fx;
+    return v1 * (1 - fy) + v2 * fy;
+  };
+  
   // 对每个新像素进行插值
   for (let y = 0; y < newHeight; y++) {
     for (let x = 0; x < newWidth; x++) {
@@ -563,42 +858,21 @@ function edgePreservingUpscale(imageData: ImageData, scaleFactor: number): Image
       const srcX = x / scaleFactor;
       const srcY = y / scaleFactor;
       
-      const resultIndex = (y * newWidth + x) * 4;
+      const resultIndex = y * newWidth + x;
       
       // 检查源位置是否为边缘区域
       const isNearEdge = isEdgePixel(srcX, srcY);
       
       if (isNearEdge) {
         // 边缘区域使用最近邻插值，保持边缘清晰
-        const nearestX = Math.round(srcX);
-        const nearestY = Math.round(srcY);
-        
-        for (let channel = 0; channel < 4; channel++) {
-          result.data[resultIndex + channel] = getPixel(nearestX, nearestY, channel);
-        }
+        result.depth[resultIndex] = getPixel(Math.round(srcX), Math.round(srcY), depth);
       } else {
         // 非边缘区域使用双线性插值，稍微平滑
-        const x1 = Math.floor(srcX);
-        const y1 = Math.floor(srcY);
-        const x2 = Math.min(x1 + 1, width - 1);
-        const y2 = Math.min(y1 + 1, height - 1);
-        
-        const fx = srcX - x1;
-        const fy = srcY - y1;
-        
-        for (let channel = 0; channel < 4; channel++) {
-          const v11 = getPixel(x1, y1, channel);
-          const v12 = getPixel(x1, y2, channel);
-          const v21 = getPixel(x2, y1, channel);
-          const v22 = getPixel(x2, y2, channel);
-          
-          const v1 = v11 * (1 - fx) + v21 * fx;
-          const v2 = v12 * (1 - fx) + v22 * fx;
-          const finalValue = v1 * (1 - fy) + v2 * fy;
-          
-          result.data[resultIndex + channel] = Math.round(finalValue);
-        }
+        result.depth[resultIndex] = getBilinear(srcX, srcY, depth);
       }
+      
+      // 透明度是覆盖率，始终双线性插值，使放大后的等值线保持平滑
+      result.alpha[resultIndex] = Math.round(getBilinear(srcX, srcY, alpha));
     }
   }
   
@@ -669,52 +943,10 @@ function highQualityDownsample(imageData: ImageData, targetWidth: number, target
   return result;
 }
 
-/**
- * 优化后的深度图生成函数 - 包含专门的深度图DPI优化和边缘平滑
- */
-export function processImageWithEdgesOptimized(
-  sourceImageData: ImageData, 
-  options: EdgeProcessorOptions,
-  enableDPIOptimization: boolean = true,
-  targetDPI: number = 300,
-  enableEdgeSmoothing: boolean = true,
-  smoothingStrength: number = 0.6
-): ImageData {
-  console.log('🔧 processImageWithEdgesOptimized 开始执行');
-  console.log(`参数检查: enableDPIOptimization=${enableDPIOptimization}, enableEdgeSmoothing=${enableEdgeSmoothing}`);
-  console.log(`参数检查: targetDPI=${targetDPI}, smoothingStrength=${smoothingStrength}`);
-  console.log(`图像尺寸: ${sourceImageData.width}x${sourceImageData.height}`);
-  
-  // 首先进行正常的边缘处理
-  const processedImageData = processImageWithEdges(sourceImageData, options);
-  console.log('✅ 基础边缘处理完成');
-  
-  // 如果启用DPI优化，使用专门的深度图优化算法
-  if (enableDPIOptimization) {
-    console.log('🎯 进入DPI优化分支');
-    console.log('开始深度图DPI优化处理...');
-    const optimizedImageData = optimizeDepthMapDPI(processedImageData, targetDPI, undefined, enableEdgeSmoothing, smoothingStrength);
-    console.log('深度图DPI优化处理完成');
-    return optimizedImageData;
-  }
-  
-  // 如果只启用边缘平滑但不启用DPI优化
-  if (enableEdgeSmoothing) {
-    console.log('🎯 进入纯边缘平滑分支');
-    console.log('开始边缘平滑处理...');
-    const smoothedImageData = intelligentEdgeSmoothing(processedImageData, smoothingStrength);
-    console.log('边缘平滑处理完成');
-    return smoothedImageData;
-  }
-  
-  console.log('⚠️ 未应用任何优化，返回原始处理结果');
-  return processedImageData;
-}
-
 /**
  * 创建带有DPI信息的深度图DataURL
  */
-export function imageDataToDataURLWithDPI(imageData: ImageData, dpi: number = 300): string {
+export function imageDataToDataURLWithDPI(imageData: ImageData, dpi: number): string {
   const canvas = document.createElement('canvas');
   const ctx = canvas.getContext('2d');
   
@@ -727,5 +959,6 @@ export function imageDataToDataURLWithDPI(imageData: ImageData, dpi: number = 30
   
   ctx.putImageData(imageData, 0, 0);
   
-  return canvas.toDataURL('image/png', 1.0); // 使用最高质量PNG格式
+  // 使用最高质量PNG格式，并写入DPI信息
+  return setPngDataURLDPI(canvas.toDataURL('image/png', 1.0), dpi);
 } 
\ No newline at end of file
@@ -0,0 +1,164 @@
+/**
+ * G代码导出工具 - 把光栅刀路写成GRBL兼容的G代码
+ * 只使用 GRBL 1.1 支持的指令（G0/G1/G4/G17/G21/G90/G94、M3/M5/M30），不使用换刀和行号；
+ * 坐标原点为加工范围的左下角，Z0 为毛坯顶面（浮雕最高点），向下为负
+ */
+
+import type { Toolpath, ToolShape } from './toolpath';
+import { downloadBlob } from './download';
+
+export interface GCodeOptions {
+  feedRate: number; // 切削进给（mm/min）
+  plungeRate: number; // 下刀进给（mm/min）
+  spindleSpeed: number; // 主轴转速（RPM）
+  safeZ: number; // 抬刀高度，毛坯顶面以上（mm）
+}
+
+export const DEFAULT_GCODE_OPTIONS: GCodeOptions = {
+  feedRate: 800,
+  plungeRate: 200,
+  spindleSpeed: 12000,
+  safeZ: 5
+};
+
+export interface GCodeExportOptions {
+  toolpath: Toolpath;
+  gcode: GCodeOptions;
+  programName?: string;
+  filename?: string;
+}
+
+// 每个字符串分块包含的行数
+const LINES_PER_CHUNK = 20000;
+
+// 主轴启动后等待的时间（秒）
+const SPINDLE_DWELL = 2;
+
+const TOOL_SHAPE_NAMES: Record<ToolShape, string> = {
+  ball: 'ball nose',
+  flat: 'flat end mill',
+  vbit: 'V-bit'
+};
+
+/**
+ * 生成G代码文件并下载
+ */
+export function exportGCode(options: GCodeExportOptions): void {
+  const { toolpath, gcode, programName = 'relief', filename = 'relief.nc' } = options;
+  downloadBlob(new Blob(writeGCode(toolpath, gcode, programName), { type: 'text/plain' }), filename);
+}
+
+/**
+ * 生成G代码：每条折线前抬刀到安全高度、快速移动到起点、以下刀进给切入，再以切削进给走完折线
+ * 坐标只输出变化的轴，进给只在变化时输出
+ */
+export function writeGCode(toolpath: Toolpath, options: GCodeOptions, programName: string = 'relief'): string[] {
+  const { stockTop, width, height, options: toolpathOptions } = toolpath;
+  const safeZ = Math.max(0.5, options.safeZ);
+  const chunks: string[] = [];
+  let lines: string[] = [];
+
+  const emit = (line: string) => {
+    lines.push(line);
+    if (lines.length >= LINES_PER_CHUNK) {
+      chunks.push(lines.join('\n') + '\n');
+      lines = [];
+    }
+  };
+
+  const tool = `${TOOL_SHAPE_NAMES[toolpathOptions.toolShape]} D${formatNumber(toolpathOptions.toolDiameter)}mm` +
+    (toolpathOptions.toolShape === 'vbit' ? ` ${formatNumber(toolpathOptions.vBitAngle)}deg` : '');
+
+  emit(comment(`RaisedEdgeEdit relief toolpath: ${programName}`));
+  emit(comment(`Generated ${new Date().toISOString()}`));
+  emit(comment(`Tool: ${tool}`));
+  emit(comment(`Stock: X0-${formatNumber(width)} Y0-${formatNumber(height)} Z0 = stock top, depth ${formatNumber(stockTop)}mm`));
+  emit(comment(`Raster ${toolpathOptions.direction.toUpperCase()}, stepover ${formatNumber(toolpathOptions.stepover)}mm` +
+    (toolpathOptions.roughing ? `, roughing stepdown ${formatNumber(toolpathOptions.stepdown)}mm leave ${formatNumber(toolpathOptions.stockToLeave)}mm` : '')));
+  emit('G21 G90 G94 G17');
+  emit(`G0 Z${formatNumber(safeZ)}`);
+  emit(`M3 S${Math.round(options.spindleSpeed)}`);
+  emit(`G4 P${SPINDLE_DWELL}`);
+
+  let x: string | null = null;
+  let y: string | null = null;
+  let z = formatNumber(safeZ);
+  let feed: number | null = null;
+
+  const move = (command: 'G0' | 'G1', nextX: number | null, nextY: number | null, nextZ: number | null, nextFeed: number | null) => {
+    let line = command;
+    const formattedX = nextX === null ? x : formatNumber(nextX);
+    const formattedY = nextY === null ? y : formatNumber(nextY);
+    const formattedZ = nextZ === null ? z : formatNumber(nextZ);
+    if (formattedX !== x) line += ` X${formattedX}`;
+    if (formattedY !== y) line += ` Y${formattedY}`;
+    if (formattedZ !== z) line += ` Z${formattedZ}`;
+    if (line === command) return;
+
+    if (command === 'G1' && nextFeed !== feed) {
+      line += ` F${Math.round(nextFeed!)}`;
+      feed = nextFeed;
+    }
+    x = formattedX;
+    y = formattedY;
+    z = formattedZ;
+    emit(line);
+  };
+
+  for (const pass of toolpath.passes) {
+    emit(comment(pass.kind === 'roughing'
+      ? `Roughing to Z${formatNumber(pass.level! - stockTop)}`
+      : 'Finishing'));
+
+    for (const segment of pass.segments) {
+      if (segment.length < 3) continue;
+
+      move('G0', null, null, safeZ, null);
+      move('G0', segment[0], segment[1], null, null);
+      move('G1', null, null, segment[2] - stockTop, options.plungeRate);
+      for (let i = 3; i < segment.length; i += 3) {
+        move('G1', segment[i], segment[i + 1], segment[i + 2] - stockTop, options.feedRate);
+      }
+    }
+  }
+
+  move('G0', null, null, safeZ, null);
+  emit('M5');
+  move('G0', 0, 0, null, null);
+  emit('M30');
+
+  chunks.push(lines.join('\n') + '\n');
+  return chunks;
+}
+
+/**
+ * 三位小数（微米），去掉末尾的零
+ */
+function formatNumber(value: number): string {
+  const formatted = value.toFixed(3).replace(/\.?0+$/, '');
+  return formatted === '-0' ? '0' : formatted;
+}
+
+/**
+ * GRBL 把 0x80 以上的字节当作实时命令，注释只保留可打印 ASCII，并去掉括号
+ */
+function comment(text: string): string {
+  return `(${text.replace(/[^\x20-\x7e]/g, '?').replace(/[()]/g, '')})`;
+}
+
+/**
+ * 校验从localStorage恢复的G代码参数
+ */
+export function parseGCodeOptions(value: unknown): GCodeOptions | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const parsed = value as Partial<GCodeOptions>;
+  const positive = (number: unknown, fallback: number) =>
+    typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : fallback;
+  return {
+    feedRate: positive(parsed.feedRate, DEFAULT_GCODE_OPTIONS.feedRate),
+    plungeRate: positive(parsed.plungeRate, DEFAULT_GCODE_OPTIONS.plungeRate),
+    spindleSpeed: positive(parsed.spindleSpeed, DEFAULT_GCODE_OPTIONS.spindleSpeed),
+    safeZ: positive(parsed.safeZ, DEFAULT_GCODE_OPTIONS.safeZ)
+  };
+}
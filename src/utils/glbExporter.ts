@@ -0,0 +1,198 @@
+/**
+ * glTF 二进制（GLB）导出工具 - 用于在网页 glTF 查看器中分享预览
+ * 原图烘焙为基础色纹理，材质与3D预览一致；单位为米、Y 轴朝上，符合 glTF 约定
+ */
+
+import { buildReliefMesh, HeightFieldOptions, SolidMesh } from './meshBuilder';
+import type { DepthField } from './depthField';
+import { PREVIEW_MATERIAL, computeHeightColors, computeImageUVs } from './meshAttributes';
+import { dataURLToBytes, downloadBlob } from './download';
+
+export interface GLBExportOptions {
+  depthMap: DepthField; // 与3D预览相同的深度图
+  meshOptions: HeightFieldOptions; // 与3D预览相同的建模参数
+  texture?: ImageData; // 上传的原图，烘焙为基础色纹理；不提供时使用预览的高度着色
+  flipTexture?: boolean; // 深度图经过水平镜像时为 true，纹理仍按原图方向贴回
+  objectName?: string;
+  filename?: string;
+}
+
+// 纹理的最大边长，大图缩小后再打包
+const MAX_TEXTURE_SIZE = 2048;
+// 原图透明处及原图以外（底板等）的颜色，与预览中的浅色石材色调接近
+const BACKGROUND_COLOR = 'rgb(230, 219, 207)';
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const CHUNK_JSON = 0x4e4f534a; // 'JSON'
+const CHUNK_BIN = 0x004e4942; // 'BIN\0'
+
+// glTF 常量
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const LINEAR = 9729;
+const LINEAR_MIPMAP_LINEAR = 9987;
+const CLAMP_TO_EDGE = 33071;
+
+/**
+ * 从深度图生成GLB文件并下载
+ */
+export function exportGLB(options: GLBExportOptions): void {
+  const { depthMap, meshOptions, texture, flipTexture = false, objectName = 'relief', filename = '3d-model.glb' } = options;
+  const mesh = buildReliefMesh(depthMap, meshOptions);
+  const png = texture ? bakeTexture(texture) : null;
+
+  downloadBlob(writeGLB(mesh, { objectName, texturePng: png, flipTexture }), filename);
+}
+
+/**
+ * 生成GLB：JSON 块描述场景、网格和材质，BIN 块依次存放顶点、纹理坐标或颜色、索引和纹理图片
+ * 不写入法线，glTF 规定查看器此时按平面着色，与预览的 flatShading 一致
+ */
+export function writeGLB(
+  mesh: SolidMesh,
+  options: { objectName?: string; texturePng?: Uint8Array<ArrayBuffer> | null; flipTexture?: boolean } = {}
+): Blob {
+  const { objectName = 'relief', texturePng = null, flipTexture = false } = options;
+  const vertexCount = mesh.positions.length / 3;
+
+  // 网格坐标为毫米、Z 轴朝上；转换为米、Y 轴朝上并水平居中，与预览的摆放相同
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < mesh.positions.length; i += 3) {
+    minX = Math.min(minX, mesh.positions[i]);
+    maxX = Math.max(maxX, mesh.positions[i]);
+    minY = Math.min(minY, mesh.positions[i + 1]);
+    maxY = Math.max(maxY, mesh.positions[i + 1]);
+  }
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+
+  const positions = new Float32Array(mesh.positions.length);
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let v = 0; v < vertexCount; v++) {
+    const point = [
+      (mesh.positions[v * 3] - centerX) / 1000,
+      mesh.positions[v * 3 + 2] / 1000,
+      -(mesh.positions[v * 3 + 1] - centerY) / 1000
+    ];
+    for (let k = 0; k < 3; k++) {
+      // 范围按写入的单精度值统计，与访问器数据完全一致
+      positions[v * 3 + k] = point[k];
+      min[k] = Math.min(min[k], positions[v * 3 + k]);
+      max[k] = Math.max(max[k], positions[v * 3 + k]);
+    }
+  }
+
+  // glTF 纹理坐标原点在图片左上角
+  const uvs = texturePng ? computeImageUVs(mesh.positions, mesh.imageBounds, flipTexture) : null;
+  if (uvs) {
+    for (let i = 1; i < uvs.length; i += 2) uvs[i] = 1 - uvs[i];
+  }
+  const colors = texturePng ? null : computeHeightColors(mesh.positions);
+
+  const binParts: Uint8Array<ArrayBuffer>[] = [];
+  const bufferViews: object[] = [];
+  let byteOffset = 0;
+  const addBufferView = (bytes: Uint8Array<ArrayBuffer>, target?: number): number => {
+    bufferViews.push({ buffer: 0, byteOffset, byteLength: bytes.length, ...(target ? { target } : {}) });
+    binParts.push(bytes);
+    byteOffset += bytes.length;
+    const padding = (4 - (bytes.length % 4)) % 4;
+    if (padding) {
+      binParts.push(new Uint8Array(padding));
+      byteOffset += padding;
+    }
+    return bufferViews.length - 1;
+  };
+  const asBytes = (array: Float32Array | Uint32Array) => new Uint8Array(array.buffer as ArrayBuffer, array.byteOffset, array.byteLength);
+
+  const accessors: object[] = [];
+  const addAccessor = (accessor: object): number => accessors.push(accessor) - 1;
+
+  const attributes: Record<string, number> = {
+    POSITION: addAccessor({ bufferView: addBufferView(asBytes(positions), ARRAY_BUFFER), componentType: FLOAT, count: vertexCount, type: 'VEC3', min, max })
+  };
+  if (uvs) {
+    attributes.TEXCOORD_0 = addAccessor({ bufferView: addBufferView(asBytes(uvs), ARRAY_BUFFER), componentType: FLOAT, count: vertexCount, type: 'VEC2' });
+  }
+  if (colors) {
+    attributes.COLOR_0 = addAccessor({ bufferView: addBufferView(asBytes(colors), ARRAY_BUFFER), componentType: FLOAT, count: vertexCount, type: 'VEC3' });
+  }
+  const indices = addAccessor({
+    bufferView: addBufferView(asBytes(new Uint32Array(mesh.indices)), ELEMENT_ARRAY_BUFFER),
+    componentType: UNSIGNED_INT,
+    count: mesh.indices.length,
+    type: 'SCALAR'
+  });
+
+  const pbrMetallicRoughness = {
+    ...(texturePng ? { baseColorTexture: { index: 0 } } : {}),
+    metallicFactor: PREVIEW_MATERIAL.metalness,
+    roughnessFactor: PREVIEW_MATERIAL.roughness
+  };
+
+  const json = {
+    asset: { version: '2.0', generator: 'RaisedEdgeEdit' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0, name: objectName }],
+    meshes: [{ name: objectName, primitives: [{ attributes, indices, material: 0 }] }],
+    materials: [{ name: 'relief', pbrMetallicRoughness, doubleSided: true }],
+    ...(texturePng
+      ? {
+          images: [{ bufferView: addBufferView(texturePng), mimeType: 'image/png' }],
+          samplers: [{ magFilter: LINEAR, minFilter: LINEAR_MIPMAP_LINEAR, wrapS: CLAMP_TO_EDGE, wrapT: CLAMP_TO_EDGE }],
+          textures: [{ sampler: 0, source: 0 }]
+        }
+      : {}),
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength: byteOffset }]
+  };
+
+  // JSON 块以空格补齐到4字节
+  let jsonText = JSON.stringify(json);
+  jsonText += ' '.repeat((4 - (new TextEncoder().encode(jsonText).length % 4)) % 4);
+  const jsonBytes = new TextEncoder().encode(jsonText);
+
+  const header = new DataView(new ArrayBuffer(12));
+  const totalLength = 12 + 8 + jsonBytes.length + 8 + byteOffset;
+  header.setUint32(0, GLB_MAGIC, true);
+  header.setUint32(4, 2, true);
+  header.setUint32(8, totalLength, true);
+
+  return new Blob(
+    [header.buffer, chunkHeader(jsonBytes.length, CHUNK_JSON), jsonBytes, chunkHeader(byteOffset, CHUNK_BIN), ...binParts],
+    { type: 'model/gltf-binary' }
+  );
+}
+
+function chunkHeader(length: number, type: number): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setUint32(0, length, true);
+  view.setUint32(4, type, true);
+  return view.buffer;
+}
+
+/**
+ * 将原图合成到背景色上并编码为PNG，透明区域在查看器中显示为背景色
+ */
+function bakeTexture(image: ImageData): Uint8Array<ArrayBuffer> {
+  const scale = Math.min(1, MAX_TEXTURE_SIZE / Math.max(image.width, image.height));
+  const source = document.createElement('canvas');
+  source.width = image.width;
+  source.height = image.height;
+  source.getContext('2d')!.putImageData(image, 0, 0);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = BACKGROUND_COLOR;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  return dataURLToBytes(canvas.toDataURL('image/png'));
+}
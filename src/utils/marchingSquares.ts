@@ -0,0 +1,162 @@
+/**
+ * Marching Squares 等值线工具 - 从抗锯齿透明度中提取亚像素精度的轮廓
+ *
+ * 单元格由四个相邻像素中心组成，角点编号（图像坐标，y 向下）：
+ *   0 ── 4 ── 1
+ *   7         5
+ *   3 ── 6 ── 2
+ * 0-3 为角点，4-7 为边上的等值点。多边形按 0,4,1,5,2,6,3,7 的顺序排列，
+ * 即画面上的顺时针方向，沿轮廓行进时实体位于右侧
+ */
+
+// 透明度大于等于该值的像素视为内部，128 对应抗锯齿边缘上覆盖一半的位置
+export const DEFAULT_CONTOUR_ALPHA = 128;
+
+export interface Contour {
+  points: Float32Array; // 闭合折线 x0,y0,x1,y1,...，像素坐标，像素 (x, y) 的中心为 (x+0.5, y+0.5)
+  isHole: boolean; // 孔洞（内轮廓）为画面上的逆时针方向，外轮廓为顺时针
+}
+
+// 等值点不与角点重合，避免生成零长度的边
+const MIN_CROSSING_T = 1e-3;
+
+const BOUNDARY_ORDER = [0, 4, 1, 5, 2, 6, 3, 7];
+
+// [情况编号][中心是否在内部] -> 内部区域多边形列表
+const POLYGON_TABLE: number[][][][] = buildPolygonTable();
+
+function buildPolygonTable(): number[][][][] {
+  const table: number[][][][] = [];
+
+  for (let caseIndex = 0; caseIndex < 16; caseIndex++) {
+    const inside = [0, 1, 2, 3].map(i => (caseIndex >> i) & 1);
+    const crosses = (edge: number) => inside[edge - 4] !== inside[(edge - 3) % 4];
+    const single = BOUNDARY_ORDER.filter(id => (id < 4 ? inside[id] === 1 : crosses(id)));
+    const isSaddle = caseIndex === 5 || caseIndex === 10;
+
+    // 鞍点情况：中心在外部时两个内部角点各自独立成三角形
+    const separated = isSaddle
+      ? [0, 1, 2, 3].filter(i => inside[i]).map(i => [4 + ((i + 3) % 4), i, 4 + i])
+      : [single];
+
+    table.push([
+      single.length > 0 ? separated : [],
+      single.length > 0 ? [single] : []
+    ]);
+  }
+
+  return table;
+}
+
+/**
+ * 获取单元格内部区域的多边形（元素为角点或边的编号）
+ * inside 为四个角点是否在内部，centerInside 用于鞍点情况的判定
+ */
+export function getCellPolygons(
+  inside0: boolean,
+  inside1: boolean,
+  inside2: boolean,
+  inside3: boolean,
+  centerInside: boolean
+): number[][] {
+  const caseIndex = (inside0 ? 1 : 0) | (inside1 ? 2 : 0) | (inside2 ? 4 : 0) | (inside3 ? 8 : 0);
+  return POLYGON_TABLE[caseIndex][centerInside ? 1 : 0];
+}
+
+/**
+ * 边 a-b 上的等值点位置参数 t（0 在 a，1 在 b）
+ */
+export function crossingT(valueA: number, valueB: number, isoLevel: number): number {
+  const t = (isoLevel - valueA) / (valueB - valueA);
+  return Math.max(MIN_CROSSING_T, Math.min(1 - MIN_CROSSING_T, t));
+}
+
+/**
+ * 提取等值线，values 为单通道数值（如透明度），大于等于 isoLevel 的像素为内部
+ * 图像边界外视为 0，因此所有轮廓都是闭合的
+ */
+export function traceContours(values: ArrayLike<number>, width: number, height: number, isoLevel: number): Contour[] {
+  const paddedWidth = width + 2;
+  const valueAt = (x: number, y: number): number =>
+    x >= 0 && x < width && y >= 0 && y < height ? values[y * width + x] : 0;
+
+  // 边的全局编号：偶数为像素 (x,y)-(x+1,y) 之间的水平边，奇数为 (x,y)-(x,y+1) 之间的竖直边
+  const edgeKey = (x: number, y: number, vertical: boolean) =>
+    ((y + 1) * paddedWidth + (x + 1)) * 2 + (vertical ? 1 : 0);
+
+  const next = new Map<number, number>();
+  const points = new Map<number, [number, number]>();
+
+  for (let cy = -1; cy < height; cy++) {
+    for (let cx = -1; cx < width; cx++) {
+      const v = [valueAt(cx, cy), valueAt(cx + 1, cy), valueAt(cx + 1, cy + 1), valueAt(cx, cy + 1)];
+      const inside = v.map(value => value >= isoLevel);
+      if (inside.every(Boolean) || !inside.some(Boolean)) continue;
+
+      const center = (v[0] + v[1] + v[2] + v[3]) / 4 >= isoLevel;
+      const polygons = getCellPolygons(inside[0], inside[1], inside[2], inside[3], center);
+
+      const keyOf = (edge: number): number => {
+        switch (edge) {
+          case 4: return edgeKey(cx, cy, false);
+          case 5: return edgeKey(cx + 1, cy, true);
+          case 6: return edgeKey(cx, cy + 1, false);
+          default: return edgeKey(cx, cy, true);
+        }
+      };
+      const pointOf = (edge: number): [number, number] => {
+        switch (edge) {
+          case 4: return [cx + 0.5 + crossingT(v[0], v[1], isoLevel), cy + 0.5];
+          case 5: return [cx + 1.5, cy + 0.5 + crossingT(v[1], v[2], isoLevel)];
+          case 6: return [cx + 0.5 + crossingT(v[3], v[2], isoLevel), cy + 1.5];
+          default: return [cx + 0.5, cy + 0.5 + crossingT(v[0], v[3], isoLevel)];
+        }
+      };
+
+      for (const polygon of polygons) {
+        for (let i = 0; i < polygon.length; i++) {
+          const from = polygon[i];
+          const to = polygon[(i + 1) % polygon.length];
+          if (from < 4 || to < 4) continue;
+
+          next.set(keyOf(from), keyOf(to));
+          points.set(keyOf(from), pointOf(from));
+        }
+      }
+    }
+  }
+
+  // 把线段首尾相连成闭合折线
+  const contours: Contour[] = [];
+  const visited = new Set<number>();
+  for (const start of next.keys()) {
+    if (visited.has(start)) continue;
+
+    const loop: number[] = [];
+    let key = start;
+    while (!visited.has(key)) {
+      visited.add(key);
+      loop.push(...points.get(key)!);
+      key = next.get(key)!;
+    }
+    const loopPoints = new Float32Array(loop);
+    contours.push({ points: loopPoints, isHole: signedArea(loopPoints) < 0 });
+  }
+
+  const holeCount = contours.filter(contour => contour.isHole).length;
+  console.log(`等值线提取完成: ${contours.length - holeCount} 条外轮廓，${holeCount} 条孔洞轮廓，${visited.size} 个顶点`);
+  return contours;
+}
+
+/**
+ * 折线的有向面积（图像坐标，y 向下），画面上顺时针为正
+ * 实体始终位于行进方向右侧，因此外轮廓为正、孔洞为负；孔洞中的岛屿又是正的，层级由方向自然区分
+ */
+function signedArea(points: Float32Array): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i += 2) {
+    const j = (i + 2) % points.length;
+    area += points[i] * points[j + 1] - points[j] * points[i + 1];
+  }
+  return area / 2;
+}
@@ -0,0 +1,106 @@
+/**
+ * 网格顶点属性 - 3D预览使用的高度着色、法线，以及映射回原图的纹理坐标
+ * OBJ、PLY 等带顶点属性的导出格式与预览共用这里的计算
+ */
+
+import { ImageBounds, SolidMesh } from './meshBuilder';
+
+// 3D预览的材质参数，GLB导出使用相同的设置
+export const PREVIEW_MATERIAL = {
+  metalness: 0.05,
+  roughness: 0.4
+};
+
+// 带可选顶点属性的三角网格，导出工具的统一输入
+export interface AttributedMesh {
+  positions: Float32Array; // 顶点坐标 xyz（mm）
+  indices: Uint32Array; // 三角形索引，逆时针为外侧
+  normals?: Float32Array; // 单位法线 xyz
+  colors?: Float32Array; // 顶点颜色 rgb（0-1）
+  uvs?: Float32Array; // 纹理坐标 uv，v 轴朝上
+}
+
+export interface VertexAttributeOptions {
+  normals?: boolean;
+  colors?: boolean;
+  uvs?: boolean;
+  flipU?: boolean; // 深度图经过水平镜像时，纹理坐标镜像回原图
+}
+
+/**
+ * 为实体网格计算导出所需的顶点属性
+ */
+export function withVertexAttributes(mesh: SolidMesh, options: VertexAttributeOptions): AttributedMesh {
+  const { normals = true, colors = true, uvs = false, flipU = false } = options;
+  return {
+    positions: mesh.positions,
+    indices: mesh.indices,
+    normals: normals ? computeVertexNormals(mesh.positions, mesh.indices) : undefined,
+    colors: colors ? computeHeightColors(mesh.positions) : undefined,
+    uvs: uvs ? computeImageUVs(mesh.positions, mesh.imageBounds, flipU) : undefined
+  };
+}
+
+/**
+ * 高度着色：越高越亮，与3D预览一致
+ */
+export function computeHeightColors(positions: Float32Array): Float32Array {
+  let maxZ = 0;
+  for (let i = 2; i < positions.length; i += 3) {
+    maxZ = Math.max(maxZ, positions[i]);
+  }
+  maxZ = maxZ || 1;
+
+  const colors = new Float32Array(positions.length);
+  for (let i = 0; i < positions.length; i += 3) {
+    const intensity = 0.7 + (positions[i + 2] / maxZ) * 0.3;
+    colors[i] = intensity;
+    colors[i + 1] = intensity * 0.95;
+    colors[i + 2] = intensity * 0.9;
+  }
+  return colors;
+}
+
+/**
+ * 顶点法线：相邻三角形按面积加权的法线之和，与 THREE.BufferGeometry.computeVertexNormals 相同
+ */
+export function computeVertexNormals(positions: Float32Array, indices: Uint32Array): Float32Array {
+  const normals = new Float32Array(positions.length);
+
+  for (let t = 0; t < indices.length; t += 3) {
+    const a = indices[t] * 3;
+    const b = indices[t + 1] * 3;
+    const c = indices[t + 2] * 3;
+    const ux = positions[b] - positions[a], uy = positions[b + 1] - positions[a + 1], uz = positions[b + 2] - positions[a + 2];
+    const vx = positions[c] - positions[a], vy = positions[c + 1] - positions[a + 1], vz = positions[c + 2] - positions[a + 2];
+    const nx = uy * vz - uz * vy;
+    const ny = uz * vx - ux * vz;
+    const nz = ux * vy - uy * vx;
+    for (const vertex of [a, b, c]) {
+      normals[vertex] += nx;
+      normals[vertex + 1] += ny;
+      normals[vertex + 2] += nz;
+    }
+  }
+
+  for (let i = 0; i < normals.length; i += 3) {
+    const length = Math.hypot(normals[i], normals[i + 1], normals[i + 2]) || 1;
+    normals[i] /= length;
+    normals[i + 1] /= length;
+    normals[i + 2] /= length;
+  }
+  return normals;
+}
+
+/**
+ * 纹理坐标：原图铺满深度图所在的范围，底板等超出原图的部分坐标落在 0-1 之外
+ */
+export function computeImageUVs(positions: Float32Array, bounds: ImageBounds, flipU: boolean = false): Float32Array {
+  const uvs = new Float32Array(positions.length / 3 * 2);
+  for (let v = 0; v < uvs.length / 2; v++) {
+    const u = (positions[v * 3] - bounds.x) / bounds.width;
+    uvs[v * 2] = flipU ? 1 - u : u;
+    uvs[v * 2 + 1] = (positions[v * 3 + 1] - bounds.y) / bounds.height;
+  }
+  return uvs;
+}
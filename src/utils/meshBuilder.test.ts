@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { buildReliefMesh, HeightFieldOptions, SolidMesh } from './meshBuilder';
+import { DEFAULT_BASE_PLATE } from './basePlate';
+import { createDepthField, DepthField } from './depthField';
+
+const SIZE = 48;
+
+// 按有符号距离（像素，内部为正）生成抗锯齿透明度，深度随位置起伏，覆盖斜面和平台
+function createShape(distance: (x: number, y: number) => number): DepthField {
+  const field = createDepthField(SIZE, SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const index = y * SIZE + x;
+      const d = distance(x + 0.5, y + 0.5);
+      field.alpha[index] = Math.round(Math.min(1, Math.max(0, d + 0.5)) * 255);
+      field.depth[index] = field.alpha[index] > 0 ? Math.min(255, Math.max(0, d * 20 + (x % 7) * 3)) : 0;
+    }
+  }
+  return field;
+}
+
+const center = SIZE / 2;
+const radius = (x: number, y: number) => Math.hypot(x - center, y - center);
+
+const disc = createShape((x, y) => 16 - radius(x, y));
+const ring = createShape((x, y) => Math.min(18 - radius(x, y), radius(x, y) - 8));
+const twoShapes = createShape((x, y) => Math.max(6 - Math.hypot(x - 14, y - 14), 7 - Math.hypot(x - 33, y - 32)));
+
+const baseOptions: HeightFieldOptions = { modelHeight: 3, mmPerPixel: 0.25, baseThickness: 1 };
+
+/**
+ * 统计每条无向边的使用次数和每条有向边的出现次数：
+ * 封闭流形要求每条边恰好属于两个三角形，且两个三角形以相反方向经过它（朝向一致）
+ */
+function checkManifold(mesh: SolidMesh) {
+  const { indices } = mesh;
+  const directed = new Map<string, number>();
+  let badEdges = 0;
+  let badWinding = 0;
+
+  for (let i = 0; i < indices.length; i += 3) {
+    for (let k = 0; k < 3; k++) {
+      const key = `${indices[i + k]},${indices[i + (k + 1) % 3]}`;
+      directed.set(key, (directed.get(key) ?? 0) + 1);
+    }
+  }
+
+  for (const [key, count] of directed) {
+    const [a, b] = key.split(',');
+    const reverse = directed.get(`${b},${a}`) ?? 0;
+    if (count + reverse !== 2) badEdges++;
+    if (count !== 1 || reverse !== 1) badWinding++;
+  }
+
+  return { triangles: indices.length / 3, badEdges, badWinding };
+}
+
+const cases: [string, DepthField, HeightFieldOptions][] = [
+  ['实心圆', disc, baseOptions],
+  ['带孔圆环', ring, baseOptions],
+  ['两个分离形状', twoShapes, baseOptions],
+  ['自适应简化', disc, { ...baseOptions, simplifyTolerance: 0.05 }],
+  ['雕刻模式', disc, { ...baseOptions, mode: 'engrave', blockThickness: 4 }],
+  ['雕刻模式圆环', ring, { ...baseOptions, mode: 'engrave', blockThickness: 4 }],
+  ['矩形底板', disc, { ...baseOptions, basePlate: { ...DEFAULT_BASE_PLATE, enabled: true, shape: 'rectangle' } }],
+  ['圆角底板带边框', ring, {
+    ...baseOptions,
+    basePlate: { ...DEFAULT_BASE_PLATE, enabled: true, shape: 'rounded', borderWidth: 1, borderHeight: 1 }
+  }],
+  ['圆形底板带安装孔', disc, {
+    ...baseOptions,
+    basePlate: {
+      ...DEFAULT_BASE_PLATE,
+      enabled: true,
+      shape: 'circle',
+      margin: 6,
+      holes: [{ type: 'screw', x: 0, y: 5 }, { type: 'keyhole', x: 0, y: -5 }]
+    }
+  }],
+  ['轮廓底板', twoShapes, { ...baseOptions, basePlate: { ...DEFAULT_BASE_PLATE, enabled: true, shape: 'contour' } }],
+  ['雕刻模式底板', ring, {
+    ...baseOptions,
+    mode: 'engrave',
+    blockThickness: 4,
+    basePlate: { ...DEFAULT_BASE_PLATE, enabled: true, shape: 'rounded' }
+  }]
+];
+
+describe('buildReliefMesh', () => {
+  it.each(cases)('%s 生成封闭且朝向一致的网格', (_name, depthMap, options) => {
+    const result = checkManifold(buildReliefMesh(depthMap, options));
+    expect(result.triangles).toBeGreaterThan(0);
+    expect(result.badEdges).toBe(0);
+    expect(result.badWinding).toBe(0);
+  });
+});
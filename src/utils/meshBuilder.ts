@@ -0,0 +1,593 @@
+/**
+ * 网格构建工具 - 从深度图生成封闭的实体网格
+ */
+
+import { DEFAULT_CONTOUR_ALPHA, crossingT, getCellPolygons } from './marchingSquares';
+import { BasePlateOptions, rasterizeBasePlate } from './basePlate';
+import type { DepthField } from './depthField';
+
+export interface HeightField {
+  width: number;
+  height: number;
+  mmPerPixel: number; // 每个像素对应的物理尺寸（mm）
+  heights: Float32Array; // 每个像素的顶面高度（mm），仅实体区域内的像素有效
+  alpha: Uint8Array; // 每个像素的透明度，抗锯齿信息用于确定亚像素轮廓
+  solidAlpha: Uint8Array; // 实体区域（浮雕、底板或雕刻块体）的透明度，无底板的浮雕模式下与 alpha 相同
+  contourAlpha: number; // 轮廓等值线的透明度，大于等于该值的像素为内部
+  imageBounds: ImageBounds; // 深度图在网格坐标中占据的范围，底板或雕刻块体会使高度场大于深度图
+}
+
+// 网格坐标中的矩形（mm），y 轴朝上
+export interface ImageBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SolidMesh {
+  positions: Float32Array; // 顶点坐标 xyz（mm）
+  indices: Uint32Array; // 三角形索引，逆时针为外侧
+  savedTriangles: number; // 自适应简化相比完整网格省去的三角形数量
+  imageBounds: ImageBounds; // 深度图的范围，用于把纹理坐标映射回原图
+}
+
+export type ReliefMode = 'raised' | 'engrave';
+
+export interface HeightFieldOptions {
+  modelHeight: number; // 浮雕高度（mm），对应深度值255；雕刻模式下为最大雕刻深度
+  mmPerPixel: number;
+  baseThickness?: number; // 浮雕下方的底座厚度（mm），保证边缘处也是封闭实体；雕刻模式下为槽底最小厚度
+  contourAlpha?: number; // 轮廓等值线的透明度（0-255），默认128
+  mode?: ReliefMode; // raised = 形状凸起，engrave = 形状刻入块体，默认 raised
+  blockThickness?: number; // 雕刻模式下块体的总厚度（mm），默认为雕刻深度加1mm
+  basePlate?: BasePlateOptions; // 底板，启用时浮雕自底板顶面凸起；雕刻模式下决定块体的外形
+  simplifyTolerance?: number; // 自适应简化允许的顶面高度误差（mm），0 或不设置时不简化
+}
+
+// 自适应简化合并的最大块为 2^6 = 64 个单元格见方
+const MAX_MERGE_LEVEL = 6;
+// 合并块内除块角外的单元格
+const MERGED = 255;
+
+/**
+ * 从深度图生成实体网格 - 3D预览和所有导出格式共用的唯一入口
+ * step 为采样步长，预览时可降低分辨率，导出时使用 1
+ */
+export function buildReliefMesh(depthMap: DepthField, options: HeightFieldOptions, step: number = 1): SolidMesh {
+  return buildSolidMesh(depthMapToHeightField(depthMap, options, step), options.simplifyTolerance);
+}
+
+/**
+ * 将深度图转换为以毫米为单位的高度场
+ * 雕刻模式下形状以深度值为槽深刻入块体，四周补一圈块体像素，保证槽不会切穿块体侧面；
+ * 启用底板时画布覆盖整个底板，凸起边框并入浮雕区域，安装孔同时切穿底板和浮雕
+ */
+export function depthMapToHeightField(depthMap: DepthField, options: HeightFieldOptions, step: number = 1): HeightField {
+  const { depth, alpha: depthAlpha } = depthMap;
+  const { modelHeight, mmPerPixel, baseThickness = 0.5, contourAlpha = DEFAULT_CONTOUR_ALPHA } = options;
+  const engrave = options.mode === 'engrave';
+  const blockThickness = options.blockThickness ?? modelHeight + 1;
+  const basePlate = options.basePlate?.enabled ? options.basePlate : null;
+
+  const sampledWidth = Math.ceil(depthMap.width / step);
+  const sampledHeight = Math.ceil(depthMap.height / step);
+  const sampledAlpha = new Uint8Array(sampledWidth * sampledHeight);
+  const sampledDepth = new Float32Array(sampledWidth * sampledHeight);
+
+  for (let y = 0; y < sampledHeight; y++) {
+    for (let x = 0; x < sampledWidth; x++) {
+      const srcX = Math.min(x * step, depthMap.width - 1);
+      const srcY = Math.min(y * step, depthMap.height - 1);
+      const pixelIndex = srcY * depthMap.width + srcX;
+      sampledAlpha[y * sampledWidth + x] = depthAlpha[pixelIndex];
+      sampledDepth[y * sampledWidth + x] = (depth[pixelIndex] / 255) * modelHeight;
+    }
+  }
+
+  // 浮雕以外实体区域的顶面高度：雕刻块体、底板，或不存在（无底板的浮雕模式）
+  const surface = engrave ? blockThickness : basePlate ? basePlate.thickness : 0;
+  const reliefBase = basePlate ? surface : baseThickness;
+
+  const plateMask = basePlate
+    ? rasterizeBasePlate(
+        sampledAlpha.map(value => (value >= contourAlpha ? 1 : 0)),
+        sampledWidth,
+        sampledHeight,
+        mmPerPixel * step,
+        basePlate
+      )
+    : null;
+  const border = engrave ? 1 : 0;
+  const width = plateMask ? plateMask.width : sampledWidth + border * 2;
+  const height = plateMask ? plateMask.height : sampledHeight + border * 2;
+  const offsetX = plateMask ? plateMask.offsetX : border;
+  const offsetY = plateMask ? plateMask.offsetY : border;
+
+  const heights = new Float32Array(width * height);
+  const alpha = new Uint8Array(width * height);
+  const solidAlpha = plateMask || engrave ? new Uint8Array(width * height) : alpha;
+  const borderTop = surface + (basePlate?.borderHeight ?? 0);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const sx = x - offsetX;
+      const sy = y - offsetY;
+      const inImage = sx >= 0 && sx < sampledWidth && sy >= 0 && sy < sampledHeight;
+
+      let value = inImage ? sampledAlpha[sy * sampledWidth + sx] : 0;
+      if (plateMask) value = Math.min(value, plateMask.solid[index]);
+
+      if (value >= contourAlpha) {
+        const depthMm = sampledDepth[sy * sampledWidth + sx];
+        heights[index] = engrave
+          ? Math.max(baseThickness, blockThickness - depthMm)
+          : reliefBase + depthMm;
+      } else {
+        heights[index] = surface;
+      }
+
+      if (plateMask) {
+        if (plateMask.border[index] >= contourAlpha) {
+          heights[index] = Math.max(heights[index], borderTop);
+        }
+        value = Math.max(value, plateMask.border[index]);
+        solidAlpha[index] = Math.max(plateMask.plate[index], value);
+      } else if (engrave) {
+        solidAlpha[index] = 255;
+      }
+      alpha[index] = value;
+    }
+  }
+
+  const fieldMmPerPixel = mmPerPixel * step;
+  const imageBounds = {
+    x: offsetX * fieldMmPerPixel,
+    y: (height - offsetY) * fieldMmPerPixel - depthMap.height * mmPerPixel,
+    width: depthMap.width * mmPerPixel,
+    height: depthMap.height * mmPerPixel
+  };
+
+  return { width, height, mmPerPixel: fieldMmPerPixel, heights, alpha, solidAlpha, contourAlpha, imageBounds };
+}
+
+/**
+ * 从高度场构建封闭实体：顶面浮雕、沿亚像素轮廓的竖直侧壁和平整的底面
+ * 顶点位于像素中心和 Marching Squares 等值点上，等值点的高度取相邻同侧像素的高度，
+ * 侧壁沿等值线生成，因此抗锯齿边缘得到平滑的轮廓而非像素台阶
+ *
+ * 实体区域的轮廓（solidAlpha）生成自底面到顶面的外壁；四个角点都在实体内的单元格中，
+ * 浮雕轮廓（alpha）两侧都生成顶面，等值点在内外两侧各有一个顶面顶点，两者之间的侧壁即浮雕或槽的侧壁。
+ * 两条轮廓经过同一单元格时以实体轮廓为准，浮雕轮廓在该单元格内退化为斜面
+ *
+ * simplifyTolerance 大于 0 时，远离轮廓的平坦区域按四叉树合并为大块：顶面在误差范围内共面才合并，
+ * 底面始终是平面，只要不含轮廓即可合并。块边上相邻小单元格的顶点都保留，网格仍然无缝封闭
+ */
+export function buildSolidMesh(field: HeightField, simplifyTolerance: number = 0): SolidMesh {
+  const { width, height, mmPerPixel, heights, alpha, solidAlpha, contourAlpha } = field;
+  const vertices = createVertexBuffer();
+  const indices = createIndexBuffer();
+
+  const cellsWidth = width - 1;
+  const simplify = simplifyTolerance > 0 && width > 1 && height > 1;
+  const topBlocks = simplify ? mergeFlatBlocks(field, simplifyTolerance) : null;
+  const bottomBlocks = simplify ? mergeFlatBlocks(field, null) : null;
+  let savedTriangles = 0;
+
+  // 只遍历实体像素的包围盒（外扩一个单元格），透明区域不生成任何顶点和三角形，耗时随形状面积而非画布面积增长
+  const bounds = solidBounds(field);
+
+  const valueAt = (values: Uint8Array, x: number, y: number): number =>
+    x >= 0 && x < width && y >= 0 && y < height ? values[y * width + x] : 0;
+
+  // 顶点成对分配：id 为顶面顶点，id + 1 为其正下方的底面顶点
+  const pushVertexPair = (x: number, y: number, z: number): number => {
+    const worldX = x * mmPerPixel;
+    const worldY = (height - y) * mmPerPixel;
+    const id = vertices.push(worldX, worldY, z);
+    vertices.push(worldX, worldY, 0);
+    return id;
+  };
+
+  const pixelVertices = new Int32Array(width * height).fill(-1);
+  const pixelVertex = (x: number, y: number): number => {
+    const index = y * width + x;
+    if (pixelVertices[index] < 0) {
+      pixelVertices[index] = pushVertexPair(x + 0.5, y + 0.5, heights[index]);
+    }
+    return pixelVertices[index];
+  };
+
+  // 等值点按所在的像素边共享，(ax, ay) 为边的左端或上端像素
+  // id 为内侧顶面顶点，id + 1 为底面顶点；浮雕轮廓的等值点另有 id + 2 为外侧顶面顶点
+  const createCrossings = (values: Uint8Array, withOuterTop: boolean) => {
+    const crossings = new Map<number, number>();
+    return (ax: number, ay: number, vertical: boolean): number => {
+      const key = ((ay + 1) * (width + 2) + (ax + 1)) * 2 + (vertical ? 1 : 0);
+      let id = crossings.get(key);
+      if (id === undefined) {
+        const bx = vertical ? ax : ax + 1;
+        const by = vertical ? ay + 1 : ay;
+        const valueA = valueAt(values, ax, ay);
+        const t = crossingT(valueA, valueAt(values, bx, by), contourAlpha);
+        const [inner, outer] = valueA >= contourAlpha ? [ay * width + ax, by * width + bx] : [by * width + bx, ay * width + ax];
+        const x = ax + 0.5 + (bx - ax) * t;
+        const y = ay + 0.5 + (by - ay) * t;
+        id = pushVertexPair(x, y, heights[inner]);
+        if (withOuterTop) {
+          vertices.push(x * mmPerPixel, (height - y) * mmPerPixel, heights[outer]);
+        }
+        crossings.set(key, id);
+      }
+      return id;
+    };
+  };
+  const solidCrossing = createCrossings(solidAlpha, false);
+  const reliefCrossing = createCrossings(alpha, true);
+
+  // 侧壁四边形：p→q 行进时实体位于左侧，保证法线朝外
+  const pushWall = (lowerP: number, lowerQ: number, upperQ: number, upperP: number) => {
+    indices.push(lowerP, lowerQ, upperQ);
+    indices.push(lowerP, upperQ, upperP);
+  };
+
+  // 多边形在画面上为顺时针且都是凸多边形，反向扇形三角化使顶面法线朝上
+  const pushCaps = (tops: number[], bottoms: number[]) => {
+    for (let i = 1; i < tops.length - 1; i++) {
+      indices.push(tops[0], tops[i + 1], tops[i]);
+    }
+    for (let i = 1; i < bottoms.length - 1; i++) {
+      indices.push(bottoms[0], bottoms[i], bottoms[i + 1]);
+    }
+  };
+
+  // 合并块的边上只保留与相邻单元格共用的像素顶点，依次为上、右、下、左边，画面上顺时针
+  const blockRing = (used: Uint8Array, bx: number, by: number, size: number): number[] => {
+    const ring: number[] = [];
+    const visit = (x: number, y: number) => {
+      if (used[y * width + x]) ring.push(pixelVertex(x, y));
+    };
+    for (let x = bx; x < bx + size; x++) visit(x, by);
+    for (let y = by; y < by + size; y++) visit(bx + size, y);
+    for (let x = bx + size; x > bx; x--) visit(x, by + size);
+    for (let y = by + size; y > by; y--) visit(bx, y);
+    return ring;
+  };
+
+  // 只有四个块角时直接拆成两个三角形，否则以块中心的像素为扇形中心，避免共线顶点产生退化三角形
+  const pushBlock = (used: Uint8Array, bx: number, by: number, size: number, top: boolean) => {
+    const ring = blockRing(used, bx, by, size);
+    const before = indices.count();
+
+    if (ring.length === 4) {
+      if (top) pushCaps(ring, []);
+      else pushCaps([], ring.map(id => id + 1));
+    } else {
+      const center = pixelVertex(bx + size / 2, by + size / 2);
+      for (let i = 0; i < ring.length; i++) {
+        const next = (i + 1) % ring.length;
+        if (top) indices.push(center, ring[next], ring[i]);
+        else indices.push(center + 1, ring[i] + 1, ring[next] + 1);
+      }
+    }
+    savedTriangles += size * size * 2 - (indices.count() - before);
+  };
+
+  // 标记合并块边上需要保留的像素：未合并的单元格和合并块的四个角
+  const markUsedPixels = (blocks: Uint8Array): Uint8Array => {
+    const used = new Uint8Array(width * height);
+    const mark = (x: number, y: number) => {
+      if (x >= 0 && x < width && y >= 0 && y < height) used[y * width + x] = 1;
+    };
+    for (let cy = bounds.minY - 1; cy <= bounds.maxY; cy++) {
+      for (let cx = bounds.minX - 1; cx <= bounds.maxX; cx++) {
+        const inGrid = cx >= 0 && cx < cellsWidth && cy >= 0 && cy < height - 1;
+        const block = inGrid ? blocks[cy * cellsWidth + cx] : 0;
+        if (block === MERGED) continue;
+        const size = 1 << block;
+        mark(cx, cy);
+        mark(cx + size, cy);
+        mark(cx + size, cy + size);
+        mark(cx, cy + size);
+      }
+    }
+    return used;
+  };
+  const topUsed = topBlocks ? markUsedPixels(topBlocks) : null;
+  const bottomUsed = bottomBlocks ? markUsedPixels(bottomBlocks) : null;
+
+  // 单元格向外多扩展一圈，使轮廓在高度场边界处闭合
+  for (let cy = bounds.minY - 1; cy <= bounds.maxY; cy++) {
+    for (let cx = bounds.minX - 1; cx <= bounds.maxX; cx++) {
+      const inGrid = cx >= 0 && cx < cellsWidth && cy >= 0 && cy < height - 1;
+      const topBlock = topBlocks && inGrid ? topBlocks[cy * cellsWidth + cx] : 0;
+      const bottomBlock = bottomBlocks && inGrid ? bottomBlocks[cy * cellsWidth + cx] : 0;
+
+      // 顶面可合并的单元格底面必然也可合并，两者都由所在的块整体生成
+      if (topBlock && bottomBlock) {
+        if (topBlock !== MERGED) pushBlock(topUsed!, cx, cy, 1 << topBlock, true);
+        if (bottomBlock !== MERGED) pushBlock(bottomUsed!, cx, cy, 1 << bottomBlock, false);
+        continue;
+      }
+      if (bottomBlock && bottomBlock !== MERGED) {
+        pushBlock(bottomUsed!, cx, cy, 1 << bottomBlock, false);
+      }
+
+      const solidValues = [valueAt(solidAlpha, cx, cy), valueAt(solidAlpha, cx + 1, cy), valueAt(solidAlpha, cx + 1, cy + 1), valueAt(solidAlpha, cx, cy + 1)];
+      const solidInside = solidValues.map(value => value >= contourAlpha);
+      if (!solidInside.some(Boolean)) continue;
+
+      const reliefValues = [valueAt(alpha, cx, cy), valueAt(alpha, cx + 1, cy), valueAt(alpha, cx + 1, cy + 1), valueAt(alpha, cx, cy + 1)];
+      const reliefInside = reliefValues.map(value => value >= contourAlpha);
+
+      const cornerVertex = (corner: number): number => {
+        switch (corner) {
+          case 0: return pixelVertex(cx, cy);
+          case 1: return pixelVertex(cx + 1, cy);
+          case 2: return pixelVertex(cx + 1, cy + 1);
+          default: return pixelVertex(cx, cy + 1);
+        }
+      };
+      const edgeVertex = (crossing: typeof solidCrossing, edge: number): number => {
+        switch (edge) {
+          case 4: return crossing(cx, cy, false);
+          case 5: return crossing(cx + 1, cy, true);
+          case 6: return crossing(cx, cy + 1, false);
+          default: return crossing(cx, cy, true);
+        }
+      };
+
+      if (solidInside.every(Boolean)) {
+        // 单元格完全位于实体内：浮雕轮廓内外两侧都生成顶面
+        const center = reliefValues.reduce((sum, value) => sum + value, 0) / 4 >= contourAlpha;
+        const regions = [
+          { polygons: getCellPolygons(reliefInside[0], reliefInside[1], reliefInside[2], reliefInside[3], center), inner: true },
+          { polygons: getCellPolygons(!reliefInside[0], !reliefInside[1], !reliefInside[2], !reliefInside[3], !center), inner: false }
+        ];
+
+        for (const { polygons, inner } of regions) {
+          for (const polygon of polygons) {
+            const ids = polygon.map(element => (element < 4 ? cornerVertex(element) : edgeVertex(reliefCrossing, element)));
+            const tops = polygon.map((element, i) => (element >= 4 && !inner ? ids[i] + 2 : ids[i]));
+            pushCaps(tops, bottomBlock ? [] : ids.map(id => id + 1));
+
+            if (!inner) continue;
+            // 浮雕或槽的侧壁：自内侧顶面到外侧顶面，内侧低于外侧（槽）时法线自然朝向槽内
+            for (let i = 0; i < ids.length; i++) {
+              const next = (i + 1) % ids.length;
+              if (polygon[i] >= 4 && polygon[next] >= 4) {
+                pushWall(ids[i], ids[next], ids[next] + 2, ids[i] + 2);
+              }
+            }
+          }
+        }
+        continue;
+      }
+
+      // 实体轮廓经过的单元格：生成实体部分的顶面、底面和外壁
+      const center = solidValues.reduce((sum, value) => sum + value, 0) / 4 >= contourAlpha;
+      for (const polygon of getCellPolygons(solidInside[0], solidInside[1], solidInside[2], solidInside[3], center)) {
+        const tops: number[] = [];
+        const bottoms: number[] = [];
+
+        for (let i = 0; i < polygon.length; i++) {
+          const element = polygon[i];
+          const nextElement = polygon[(i + 1) % polygon.length];
+          const id = element < 4 ? cornerVertex(element) : edgeVertex(solidCrossing, element);
+          tops.push(id);
+          bottoms.push(id + 1);
+
+          if (element >= 4 && nextElement >= 4) {
+            // 多边形沿顺时针行进时实体位于右侧
+            const nextId = edgeVertex(solidCrossing, nextElement);
+            pushWall(nextId + 1, id + 1, id, nextId);
+          } else if (element < 4 && nextElement < 4 && reliefInside[element] !== reliefInside[nextElement]) {
+            // 相邻单元格在这条边上生成了浮雕侧壁，插入等值点的两个顶面顶点与之衔接
+            const crossing = edgeVertex(reliefCrossing, element + 4);
+            tops.push(...(reliefInside[element] ? [crossing, crossing + 2] : [crossing + 2, crossing]));
+            bottoms.push(crossing + 1);
+          }
+        }
+
+        pushCaps(tops, bottoms);
+      }
+    }
+  }
+
+  const mesh = removeUnusedVertices(vertices.toArray(), indices.toArray());
+  console.log(`实体网格生成完成: ${mesh.positions.length / 3} 个顶点，${mesh.indices.length / 3} 个三角形` +
+    (simplify ? `，自适应简化省去 ${savedTriangles} 个三角形` : ''));
+
+  return { ...mesh, savedTriangles, imageBounds: field.imageBounds };
+}
+
+/**
+ * 顶点成对分配，简化后部分底面顶点不再被任何三角形引用；导出文件只保留用到的顶点
+ */
+function removeUnusedVertices(positions: Float32Array, indices: Uint32Array): { positions: Float32Array; indices: Uint32Array } {
+  const remap = new Int32Array(positions.length / 3).fill(-1);
+  let count = 0;
+  for (let i = 0; i < indices.length; i++) {
+    if (remap[indices[i]] < 0) remap[indices[i]] = count++;
+  }
+  if (count === remap.length) return { positions, indices };
+
+  const compact = new Float32Array(count * 3);
+  for (let v = 0; v < remap.length; v++) {
+    const target = remap[v];
+    if (target < 0) continue;
+    compact[target * 3] = positions[v * 3];
+    compact[target * 3 + 1] = positions[v * 3 + 1];
+    compact[target * 3 + 2] = positions[v * 3 + 2];
+  }
+  for (let i = 0; i < indices.length; i++) {
+    indices[i] = remap[indices[i]];
+  }
+  return { positions: compact, indices };
+}
+
+/**
+ * 实体像素（solidAlpha 达到轮廓阈值）的包围盒，没有实体像素时为空范围
+ */
+function solidBounds(field: HeightField): { minX: number; minY: number; maxX: number; maxY: number } {
+  const { width, height, solidAlpha, contourAlpha } = field;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (solidAlpha[y * width + x] >= contourAlpha) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        maxY = y;
+      }
+    }
+  }
+
+  return { minX, minY, maxX, maxY };
+}
+
+/**
+ * 四叉树合并：返回每个单元格（四个角为相邻像素）所属的块，
+ * 值 k > 0 表示以该单元格为左上角、边长 2^k 的合并块，MERGED 表示位于其他合并块内，0 表示不合并。
+ * 可合并的单元格四角都在实体内且不含浮雕轮廓；tolerance 不为 null 时还要求块内所有像素的高度
+ * 与块角拟合平面的偏差不超过 tolerance 的一半，使三角化后的顶面与原高度场的误差不超过 tolerance
+ */
+function mergeFlatBlocks(field: HeightField, tolerance: number | null): Uint8Array {
+  const { width, height, heights, alpha, solidAlpha, contourAlpha } = field;
+  const cellsWidth = width - 1;
+  const cellsHeight = height - 1;
+  const cellIndex = (x: number, y: number) => y * cellsWidth + x;
+
+  // 每个单元格作为左上角时可合并的最大层级，-1 为不可合并
+  const levels = new Int8Array(cellsWidth * cellsHeight).fill(-1);
+  for (let y = 0; y < cellsHeight; y++) {
+    for (let x = 0; x < cellsWidth; x++) {
+      const corners = [y * width + x, y * width + x + 1, (y + 1) * width + x + 1, (y + 1) * width + x];
+      const inside = alpha[corners[0]] >= contourAlpha;
+      if (corners.every(i => solidAlpha[i] >= contourAlpha && alpha[i] >= contourAlpha === inside)) {
+        levels[cellIndex(x, y)] = 0;
+      }
+    }
+  }
+
+  const isPlanar = (x: number, y: number, size: number): boolean => {
+    if (tolerance === null) return true;
+    const h00 = heights[y * width + x];
+    const h10 = heights[y * width + x + size];
+    const h01 = heights[(y + size) * width + x];
+    const h11 = heights[(y + size) * width + x + size];
+    const slopeX = (h10 + h11 - h00 - h01) / (2 * size);
+    const slopeY = (h01 + h11 - h00 - h10) / (2 * size);
+    const mean = (h00 + h10 + h01 + h11) / 4;
+    const half = size / 2;
+    for (let py = 0; py <= size; py++) {
+      for (let px = 0; px <= size; px++) {
+        const planeHeight = mean + slopeX * (px - half) + slopeY * (py - half);
+        if (Math.abs(heights[(y + py) * width + x + px] - planeHeight) > tolerance / 2) return false;
+      }
+    }
+    return true;
+  };
+
+  // 自下而上：四个子块都可合并且整体共面时，块升一级
+  for (let level = 1; level <= MAX_MERGE_LEVEL; level++) {
+    const size = 1 << level;
+    const half = size >> 1;
+    for (let y = 0; y + size <= cellsHeight; y += size) {
+      for (let x = 0; x + size <= cellsWidth; x += size) {
+        const childLevel = level - 1;
+        if (
+          levels[cellIndex(x, y)] >= childLevel &&
+          levels[cellIndex(x + half, y)] >= childLevel &&
+          levels[cellIndex(x, y + half)] >= childLevel &&
+          levels[cellIndex(x + half, y + half)] >= childLevel &&
+          isPlanar(x, y, size)
+        ) {
+          levels[cellIndex(x, y)] = level;
+        }
+      }
+    }
+  }
+
+  // 自上而下：取能合并的最大块，单个单元格不算合并，仍按常规方式生成
+  const blocks = new Uint8Array(cellsWidth * cellsHeight);
+  const assign = (x: number, y: number, level: number) => {
+    if (x >= cellsWidth || y >= cellsHeight || level === 0) return;
+    const size = 1 << level;
+    if (levels[cellIndex(x, y)] >= level) {
+      for (let by = y; by < y + size; by++) {
+        blocks.fill(MERGED, cellIndex(x, by), cellIndex(x + size, by));
+      }
+      blocks[cellIndex(x, y)] = level;
+      return;
+    }
+    const half = size >> 1;
+    assign(x, y, level - 1);
+    assign(x + half, y, level - 1);
+    assign(x, y + half, level - 1);
+    assign(x + half, y + half, level - 1);
+  };
+  const rootSize = 1 << MAX_MERGE_LEVEL;
+  for (let y = 0; y < cellsHeight; y += rootSize) {
+    for (let x = 0; x < cellsWidth; x += rootSize) {
+      assign(x, y, MAX_MERGE_LEVEL);
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * 可增长的顶点缓冲区，返回新顶点的索引
+ */
+function createVertexBuffer() {
+  let buffer = new Float32Array(3 << 16);
+  let length = 0;
+
+  return {
+    push(x: number, y: number, z: number): number {
+      if (length + 3 > buffer.length) {
+        const grown = new Float32Array(buffer.length * 2);
+        grown.set(buffer);
+        buffer = grown;
+      }
+      buffer[length++] = x;
+      buffer[length++] = y;
+      buffer[length++] = z;
+      return length / 3 - 1;
+    },
+    toArray(): Float32Array {
+      return buffer.slice(0, length);
+    }
+  };
+}
+
+/**
+ * 可增长的三角形索引缓冲区
+ * 大尺寸深度图会产生上千万个索引，普通数组占用内存过大
+ */
+function createIndexBuffer() {
+  let buffer = new Uint32Array(1 << 16);
+  let length = 0;
+
+  return {
+    push(a: number, b: number, c: number) {
+      if (length + 3 > buffer.length) {
+        const grown = new Uint32Array(buffer.length * 2);
+        grown.set(buffer);
+        buffer = grown;
+      }
+      buffer[length++] = a;
+      buffer[length++] = b;
+      buffer[length++] = c;
+    },
+    count(): number {
+      return length / 3;
+    },
+    toArray(): Uint32Array {
+      return buffer.slice(0, length);
+    }
+  };
+}
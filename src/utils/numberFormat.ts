@@ -0,0 +1,16 @@
+/**
+ * 文本格式模型文件（3MF、OBJ、ASCII PLY）共用的数字格式
+ */
+
+/**
+ * 写出能还原同一 float32 值的最短小数：网格数据本身是 float32，
+ * 固定位数的舍入会让细网格上相邻的顶点重合，产生零面积三角形，且各格式之间的几何会略有差别
+ */
+export function formatFloat32(value: number): string {
+  const target = Math.fround(value);
+  for (let precision = 6; precision < 9; precision++) {
+    const rounded = Number(value.toPrecision(precision));
+    if (Math.fround(rounded) === target) return String(rounded);
+  }
+  return String(Number(value.toPrecision(9)));
+}
@@ -0,0 +1,129 @@
+/**
+ * Wavefront OBJ 导出工具 - 顶点颜色（v 行扩展的 rgb）、法线，可选 MTL 材质和映射回原图的纹理
+ * 带材质时 OBJ、MTL 和纹理图片打包为 zip，便于在 Blender 中直接导入
+ */
+
+import { buildReliefMesh, HeightFieldOptions } from './meshBuilder';
+import type { DepthField } from './depthField';
+import { AttributedMesh, withVertexAttributes } from './meshAttributes';
+import { createZip } from './zipWriter';
+import { dataURLToBytes, downloadBlob } from './download';
+import { formatFloat32 } from './numberFormat';
+
+export interface OBJExportOptions {
+  depthMap: DepthField; // 与3D预览相同的深度图
+  meshOptions: HeightFieldOptions; // 与3D预览相同的建模参数
+  objectName?: string;
+  withMaterial?: boolean; // 同时导出 MTL 材质和纹理坐标
+  textureDataURL?: string; // 作为漫反射贴图的原图（PNG DataURL）
+  flipTexture?: boolean; // 深度图经过水平镜像时为 true，纹理仍按原图方向贴回
+  filename?: string; // 不含扩展名
+}
+
+export interface OBJWriteOptions {
+  objectName?: string;
+  materialLibrary?: string; // mtllib 引用的文件名
+  materialName?: string;
+}
+
+// 每个字符串块包含的顶点或三角形数量
+const ELEMENTS_PER_CHUNK = 20000;
+const MATERIAL_NAME = 'relief';
+const TEXTURE_FILE = 'texture.png';
+
+/**
+ * 从深度图生成OBJ文件并下载，带材质时下载包含 OBJ/MTL/PNG 的 zip
+ */
+export function exportOBJ(options: OBJExportOptions): void {
+  const { depthMap, meshOptions, objectName = 'relief', withMaterial = false, textureDataURL, flipTexture = false, filename = '3d-model' } = options;
+  const mesh = withVertexAttributes(buildReliefMesh(depthMap, meshOptions), { uvs: withMaterial, flipU: flipTexture });
+
+  if (!withMaterial) {
+    downloadBlob(new Blob(writeOBJ(mesh, { objectName }), { type: 'model/obj' }), `${filename}.obj`);
+    return;
+  }
+
+  const encoder = new TextEncoder();
+  const texture = textureDataURL ? dataURLToBytes(textureDataURL) : null;
+  const entries = [
+    { name: `${filename}.obj`, chunks: writeOBJ(mesh, { objectName, materialLibrary: `${filename}.mtl`, materialName: MATERIAL_NAME }).map(text => encoder.encode(text)) },
+    { name: `${filename}.mtl`, chunks: [encoder.encode(writeMTL(MATERIAL_NAME, texture ? TEXTURE_FILE : undefined))] },
+    ...(texture ? [{ name: TEXTURE_FILE, chunks: [texture] }] : [])
+  ];
+  downloadBlob(createZip(entries), `${filename}.zip`);
+}
+
+/**
+ * 生成OBJ文本，按块返回；索引从1开始，面的格式随存在的属性变化（v/vt/vn）
+ */
+export function writeOBJ(mesh: AttributedMesh, options: OBJWriteOptions = {}): string[] {
+  const { objectName = 'relief', materialLibrary, materialName } = options;
+  const { positions, indices, normals, colors, uvs } = mesh;
+  const vertexCount = positions.length / 3;
+  const triangleCount = indices.length / 3;
+
+  const chunks: string[] = [
+    '# generated by RaisedEdgeEdit, units: mm\n' +
+    (materialLibrary ? `mtllib ${materialLibrary}\n` : '') +
+    `o ${objectName}\n`
+  ];
+
+  for (let start = 0; start < vertexCount; start += ELEMENTS_PER_CHUNK) {
+    const end = Math.min(start + ELEMENTS_PER_CHUNK, vertexCount);
+    const lines: string[] = [];
+    for (let v = start; v < end; v++) {
+      const color = colors ? ` ${formatFloat32(colors[v * 3])} ${formatFloat32(colors[v * 3 + 1])} ${formatFloat32(colors[v * 3 + 2])}` : '';
+      lines.push(`v ${formatFloat32(positions[v * 3])} ${formatFloat32(positions[v * 3 + 1])} ${formatFloat32(positions[v * 3 + 2])}${color}\n`);
+    }
+    if (uvs) {
+      for (let v = start; v < end; v++) {
+        lines.push(`vt ${formatFloat32(uvs[v * 2])} ${formatFloat32(uvs[v * 2 + 1])}\n`);
+      }
+    }
+    if (normals) {
+      for (let v = start; v < end; v++) {
+        lines.push(`vn ${formatFloat32(normals[v * 3])} ${formatFloat32(normals[v * 3 + 1])} ${formatFloat32(normals[v * 3 + 2])}\n`);
+      }
+    }
+    chunks.push(lines.join(''));
+  }
+
+  if (materialName) chunks.push(`usemtl ${materialName}\n`);
+
+  // 顶点、纹理坐标和法线一一对应，使用相同的索引
+  const corner = (index: number): string => {
+    const id = index + 1;
+    if (uvs && normals) return `${id}/${id}/${id}`;
+    if (uvs) return `${id}/${id}`;
+    if (normals) return `${id}//${id}`;
+    return String(id);
+  };
+
+  for (let start = 0; start < triangleCount; start += ELEMENTS_PER_CHUNK) {
+    const end = Math.min(start + ELEMENTS_PER_CHUNK, triangleCount);
+    const lines: string[] = [];
+    for (let t = start; t < end; t++) {
+      lines.push(`f ${corner(indices[t * 3])} ${corner(indices[t * 3 + 1])} ${corner(indices[t * 3 + 2])}\n`);
+    }
+    chunks.push(lines.join(''));
+  }
+
+  return chunks;
+}
+
+/**
+ * 生成MTL材质，有纹理时以原图作为漫反射贴图
+ */
+export function writeMTL(materialName: string, textureFile?: string): string {
+  return [
+    '# generated by RaisedEdgeEdit',
+    `newmtl ${materialName}`,
+    'Ka 1 1 1',
+    'Kd 1 1 1',
+    'Ks 0 0 0',
+    'd 1',
+    'illum 1',
+    ...(textureFile ? [`map_Kd ${textureFile}`] : []),
+    ''
+  ].join('\n');
+}
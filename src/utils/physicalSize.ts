@@ -0,0 +1,145 @@
+/**
+ * 物理尺寸工具 - 像素与毫米之间的换算，以及图像文件中的DPI元数据读写
+ */
+
+import { crc32 } from './crc32';
+
+export const MM_PER_INCH = 25.4;
+
+// 图像没有DPI元数据时的默认值（1像素 = 0.1mm）
+export const DEFAULT_DPI = 254;
+
+export type PhysicalSizeMode = 'dpi' | 'width' | 'height';
+
+export interface PhysicalSizeSettings {
+  mode: PhysicalSizeMode; // 按DPI换算，或按目标宽度/高度换算
+  dpi: number;
+  widthMm: number;
+  heightMm: number;
+}
+
+export function dpiToMmPerPixel(dpi: number): number {
+  return MM_PER_INCH / dpi;
+}
+
+export function mmPerPixelToDPI(mmPerPixel: number): number {
+  return MM_PER_INCH / mmPerPixel;
+}
+
+/**
+ * 根据物理尺寸设置计算原图每个像素对应的毫米数
+ */
+export function resolveMmPerPixel(settings: PhysicalSizeSettings, imageWidth: number, imageHeight: number): number {
+  switch (settings.mode) {
+    case 'width':
+      return settings.widthMm / imageWidth;
+    case 'height':
+      return settings.heightMm / imageHeight;
+    default:
+      return dpiToMmPerPixel(settings.dpi);
+  }
+}
+
+/**
+ * 从PNG（pHYs数据块）或JPEG（JFIF APP0段）文件中读取DPI
+ * 文件没有记录物理尺寸时返回 null
+ */
+export async function readImageDPI(file: Blob): Promise<number | null> {
+  const bytes = new Uint8Array(await file.slice(0, 64 * 1024).arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  if (isPng(bytes)) {
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset);
+      const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+
+      if (type === 'pHYs' && offset + 17 <= bytes.length) {
+        const pixelsPerUnitX = view.getUint32(offset + 8);
+        const unit = bytes[offset + 16];
+        // 单位1表示每米像素数，单位0只表示宽高比
+        return unit === 1 && pixelsPerUnitX > 0 ? pixelsPerUnitX * MM_PER_INCH / 1000 : null;
+      }
+      if (type === 'IDAT' || type === 'IEND') break;
+
+      offset += 12 + length;
+    }
+    return null;
+  }
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      const length = view.getUint16(offset + 2);
+
+      if (marker === 0xe0 && offset + 18 <= bytes.length &&
+          String.fromCharCode(...bytes.subarray(offset + 4, offset + 9)) === 'JFIF\0') {
+        const unit = bytes[offset + 11];
+        const densityX = view.getUint16(offset + 12);
+        // 单位1为每英寸像素数，单位2为每厘米像素数，单位0只表示宽高比
+        if (unit === 1 && densityX > 0) return densityX;
+        if (unit === 2 && densityX > 0) return densityX * 2.54;
+        return null;
+      }
+      if (marker === 0xda) break; // 图像数据开始
+
+      offset += 2 + length;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 在PNG格式的DataURL中写入pHYs数据块，使下载的图像带有DPI信息
+ */
+export function setPngDataURLDPI(dataURL: string, dpi: number): string {
+  const prefix = 'data:image/png;base64,';
+  if (!dataURL.startsWith(prefix)) return dataURL;
+
+  const binary = atob(dataURL.slice(prefix.length));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  if (!isPng(bytes)) return dataURL;
+
+  // 每米像素数
+  const pixelsPerMeter = Math.round(dpi * 1000 / MM_PER_INCH);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // 'pHYs'
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1;
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  // IHDR 固定位于签名之后，长度为 8 + 4 + 13 + 4 = 33 字节；移除已有的pHYs块
+  const ihdrEnd = 33;
+  const parts: Uint8Array[] = [bytes.subarray(0, ihdrEnd), chunk];
+  let offset = ihdrEnd;
+  const fileView = new DataView(bytes.buffer);
+  while (offset + 8 <= bytes.length) {
+    const length = fileView.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type !== 'pHYs') {
+      parts.push(bytes.subarray(offset, offset + 12 + length));
+    }
+    offset += 12 + length;
+  }
+
+  let result = '';
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i += 0x8000) {
+      result += String.fromCharCode(...part.subarray(i, i + 0x8000));
+    }
+  }
+  return prefix + btoa(result);
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+  const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  return signature.every((value, i) => bytes[i] === value);
+}
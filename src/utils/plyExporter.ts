@@ -0,0 +1,117 @@
+/**
+ * PLY 文件导出工具 - 顶点法线和颜色，二进制（小端）或ASCII格式，适合在 MeshLab 中继续处理
+ */
+
+import { buildReliefMesh, HeightFieldOptions } from './meshBuilder';
+import type { DepthField } from './depthField';
+import { AttributedMesh, withVertexAttributes } from './meshAttributes';
+import { downloadBlob } from './download';
+import { formatFloat32 } from './numberFormat';
+
+export type PLYFormat = 'ascii' | 'binary';
+
+export interface PLYExportOptions {
+  depthMap: DepthField; // 与3D预览相同的深度图
+  meshOptions: HeightFieldOptions; // 与3D预览相同的建模参数
+  format?: PLYFormat;
+  filename?: string;
+}
+
+// 每个分块包含的顶点或三角形数量
+const ELEMENTS_PER_CHUNK = 20000;
+
+/**
+ * 从深度图生成PLY文件并下载
+ */
+export function exportPLY(options: PLYExportOptions): void {
+  const { depthMap, meshOptions, format = 'binary', filename = '3d-model.ply' } = options;
+  const mesh = withVertexAttributes(buildReliefMesh(depthMap, meshOptions), {});
+
+  downloadBlob(writePLY(mesh, format), filename);
+}
+
+/**
+ * 生成PLY：顶点 xyz，存在时附带法线 nx/ny/nz 和颜色 red/green/blue（uchar），面为三角形索引列表
+ */
+export function writePLY(mesh: AttributedMesh, format: PLYFormat = 'binary'): Blob {
+  const { positions, indices, normals, colors } = mesh;
+  const vertexCount = positions.length / 3;
+  const triangleCount = indices.length / 3;
+
+  const header = [
+    'ply',
+    `format ${format === 'binary' ? 'binary_little_endian' : 'ascii'} 1.0`,
+    'comment generated by RaisedEdgeEdit, units: mm',
+    `element vertex ${vertexCount}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    ...(normals ? ['property float nx', 'property float ny', 'property float nz'] : []),
+    ...(colors ? ['property uchar red', 'property uchar green', 'property uchar blue'] : []),
+    `element face ${triangleCount}`,
+    'property list uchar int vertex_indices',
+    'end_header',
+    ''
+  ].join('\n');
+
+  const toByte = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 255);
+  const parts: BlobPart[] = [header];
+
+  if (format === 'ascii') {
+    for (let start = 0; start < vertexCount; start += ELEMENTS_PER_CHUNK) {
+      const end = Math.min(start + ELEMENTS_PER_CHUNK, vertexCount);
+      const lines: string[] = [];
+      for (let v = start; v < end; v++) {
+        const values = [positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]];
+        if (normals) values.push(normals[v * 3], normals[v * 3 + 1], normals[v * 3 + 2]);
+        const color = colors ? ` ${toByte(colors[v * 3])} ${toByte(colors[v * 3 + 1])} ${toByte(colors[v * 3 + 2])}` : '';
+        lines.push(values.map(formatFloat32).join(' ') + color + '\n');
+      }
+      parts.push(lines.join(''));
+    }
+    for (let start = 0; start < triangleCount; start += ELEMENTS_PER_CHUNK) {
+      const end = Math.min(start + ELEMENTS_PER_CHUNK, triangleCount);
+      const lines: string[] = [];
+      for (let t = start; t < end; t++) {
+        lines.push(`3 ${indices[t * 3]} ${indices[t * 3 + 1]} ${indices[t * 3 + 2]}\n`);
+      }
+      parts.push(lines.join(''));
+    }
+    return new Blob(parts, { type: 'text/plain' });
+  }
+
+  const vertexBytes = 12 + (normals ? 12 : 0) + (colors ? 3 : 0);
+  for (let start = 0; start < vertexCount; start += ELEMENTS_PER_CHUNK) {
+    const end = Math.min(start + ELEMENTS_PER_CHUNK, vertexCount);
+    const buffer = new ArrayBuffer((end - start) * vertexBytes);
+    const view = new DataView(buffer);
+    let offset = 0;
+    for (let v = start; v < end; v++) {
+      for (let k = 0; k < 3; k++, offset += 4) view.setFloat32(offset, positions[v * 3 + k], true);
+      if (normals) {
+        for (let k = 0; k < 3; k++, offset += 4) view.setFloat32(offset, normals[v * 3 + k], true);
+      }
+      if (colors) {
+        for (let k = 0; k < 3; k++, offset += 1) view.setUint8(offset, toByte(colors[v * 3 + k]));
+      }
+    }
+    parts.push(buffer);
+  }
+
+  for (let start = 0; start < triangleCount; start += ELEMENTS_PER_CHUNK) {
+    const end = Math.min(start + ELEMENTS_PER_CHUNK, triangleCount);
+    const buffer = new ArrayBuffer((end - start) * 13);
+    const view = new DataView(buffer);
+    let offset = 0;
+    for (let t = start; t < end; t++) {
+      view.setUint8(offset, 3);
+      view.setInt32(offset + 1, indices[t * 3], true);
+      view.setInt32(offset + 5, indices[t * 3 + 1], true);
+      view.setInt32(offset + 9, indices[t * 3 + 2], true);
+      offset += 13;
+    }
+    parts.push(buffer);
+  }
+
+  return new Blob(parts, { type: 'application/octet-stream' });
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { decodePng16DepthField, encodeDepthFieldPng16 } from './png16';
+import { createDepthField } from './depthField';
+
+// IHDR 数据中颜色类型字节的位置：签名 8 字节 + 长度和类型 8 字节 + 宽高 8 字节 + 位深度 1 字节
+const COLOR_TYPE_OFFSET = 25;
+// 隔行扫描方式字节在压缩方式、滤波方式之后
+const INTERLACE_OFFSET = 28;
+
+async function encodeGradient(): Promise<Uint8Array> {
+  const field = createDepthField(16, 8);
+  for (let i = 0; i < field.depth.length; i++) {
+    field.depth[i] = (i / (field.depth.length - 1)) * 255;
+    field.alpha[i] = i % 5 === 0 ? 0 : 255;
+  }
+  return new Uint8Array(await (await encodeDepthFieldPng16(field, 300)).arrayBuffer());
+}
+
+describe('16位PNG高度图', () => {
+  it('灰度+透明度PNG往返后保留浮点深度和透明度', async () => {
+    const decoded = await decodePng16DepthField(await encodeGradient());
+    expect(decoded).not.toBeNull();
+    for (let i = 0; i < decoded!.depth.length; i++) {
+      expect(decoded!.depth[i]).toBeCloseTo((i / (decoded!.depth.length - 1)) * 255, 2);
+      expect(decoded!.alpha[i]).toBe(i % 5 === 0 ? 0 : 255);
+    }
+  });
+
+  it.each([2, 6])('颜色类型 %i（彩色）不作为高度图导入', async colorType => {
+    const bytes = await encodeGradient();
+    bytes[COLOR_TYPE_OFFSET] = colorType;
+    expect(await decodePng16DepthField(bytes)).toBeNull();
+  });
+
+  it('隔行扫描的PNG不作为高度图导入，也不抛出异常', async () => {
+    const bytes = await encodeGradient();
+    bytes[INTERLACE_OFFSET] = 1;
+    expect(await decodePng16DepthField(bytes)).toBeNull();
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * 16位灰度PNG的编码与解码 - 不经过Canvas（Canvas只支持8位通道）
+ * 压缩使用浏览器内置的 CompressionStream('deflate')，即PNG要求的zlib格式
+ */
+
+import { crc32 } from './crc32';
+import { DepthField, createDepthField } from './depthField';
+import { MM_PER_INCH, isPng } from './physicalSize';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// 作为高度图导入的PNG颜色类型及其通道数；16位RGB/RGBA多为照片或设计稿导出，按普通图像处理
+const CHANNELS: Record<number, number> = {
+  0: 1, // 灰度
+  4: 2 // 灰度 + 透明度
+};
+
+/**
+ * 把深度场编码为16位灰度+透明度PNG，深度 0-255 线性映射到 0-65535，并写入pHYs记录DPI
+ */
+export async function encodeDepthFieldPng16(field: DepthField, dpi: number): Promise<Blob> {
+  const { width, height, depth, alpha } = field;
+  const stride = width * 4;
+
+  // 每行以滤波类型开头；Up 滤波（与上一行相减）对平缓的高度图压缩效果较好
+  const raw = new Uint8Array((stride + 1) * height);
+  const previous = new Uint8Array(stride);
+  const current = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const grey = Math.max(0, Math.min(65535, Math.round((depth[index] / 255) * 65535)));
+      const a = alpha[index] * 257;
+      current[x * 4] = grey >> 8;
+      current[x * 4 + 1] = grey & 0xff;
+      current[x * 4 + 2] = a >> 8;
+      current[x * 4 + 3] = a & 0xff;
+    }
+
+    const rowStart = y * (stride + 1);
+    raw[rowStart] = 2;
+    for (let i = 0; i < stride; i++) {
+      raw[rowStart + 1 + i] = current[i] - previous[i];
+    }
+    previous.set(current);
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 16; // 位深度
+  header[9] = 4; // 灰度 + 透明度
+  // 压缩方式、滤波方式、隔行扫描均为 0
+
+  // 每米像素数
+  const pixelsPerMeter = Math.round(dpi * 1000 / MM_PER_INCH);
+  const physical = new Uint8Array(9);
+  const physicalView = new DataView(physical.buffer);
+  physicalView.setUint32(0, pixelsPerMeter);
+  physicalView.setUint32(4, pixelsPerMeter);
+  physical[8] = 1;
+
+  const compressed = await transform(raw, new CompressionStream('deflate'));
+
+  return new Blob(
+    [
+      new Uint8Array(PNG_SIGNATURE),
+      pngChunk('IHDR', header),
+      pngChunk('pHYs', physical),
+      pngChunk('IDAT', compressed),
+      pngChunk('IEND', new Uint8Array(0))
+    ],
+    { type: 'image/png' }
+  );
+}
+
+/**
+ * 解码16位灰度PNG高度图，灰度线性映射为深度 0-255
+ * 文件不是逐行扫描的16位灰度（或灰度+透明度）PNG时返回 null，由调用方按普通图像加载
+ */
+export async function decodePng16DepthField(bytes: Uint8Array): Promise<DepthField | null> {
+  if (!isPng(bytes)) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  const dataChunks: Uint8Array<ArrayBuffer>[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      if (data[8] !== 16) return null;
+      colorType = data[9];
+      if (!(colorType in CHANNELS)) return null;
+      // 隔行扫描（Adam7）的PNG不解码，交给浏览器按普通图像加载
+      if (data[12] !== 0) {
+        console.log('16位PNG为隔行扫描，按普通图像加载');
+        return null;
+      }
+    } else if (type === 'IDAT') {
+      dataChunks.push(data.slice());
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset += 12 + length;
+  }
+
+  if (colorType < 0 || dataChunks.length === 0) {
+    throw new Error('16位PNG缺少图像数据');
+  }
+
+  const channels = CHANNELS[colorType];
+  const bytesPerPixel = channels * 2;
+  const stride = width * bytesPerPixel;
+  const raw = await transform(new Blob(dataChunks), new DecompressionStream('deflate'));
+  if (raw.length < (stride + 1) * height) {
+    throw new Error('16位PNG图像数据不完整');
+  }
+
+  const pixels = unfilter(raw, width, height, bytesPerPixel);
+  const pixelView = new DataView(pixels.buffer);
+  const field = createDepthField(width, height);
+  const hasAlpha = colorType === 4;
+
+  for (let i = 0; i < width * height; i++) {
+    const base = i * bytesPerPixel;
+    field.depth[i] = (pixelView.getUint16(base) / 65535) * 255;
+    field.alpha[i] = hasAlpha ? Math.round(pixelView.getUint16(base + 2) / 257) : 255;
+  }
+
+  console.log(`16位PNG高度图解码完成: ${width}x${height}, 颜色类型 ${colorType}`);
+  return field;
+}
+
+/**
+ * 还原PNG的逐行滤波，返回不含滤波字节的像素数据
+ */
+function unfilter(raw: Uint8Array, width: number, height: number, bytesPerPixel: number): Uint8Array<ArrayBuffer> {
+  const stride = width * bytesPerPixel;
+  const pixels = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prior = row - stride;
+
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bytesPerPixel ? pixels[row + i - bytesPerPixel] : 0;
+      const up = y > 0 ? pixels[prior + i] : 0;
+      const upLeft = y > 0 && i >= bytesPerPixel ? pixels[prior + i - bytesPerPixel] : 0;
+
+      let predictor: number;
+      switch (filter) {
+        case 0:
+          predictor = 0;
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`PNG滤波类型无效: ${filter}`);
+      }
+      pixels[row + i] = (raw[source + i] + predictor) & 0xff;
+    }
+  }
+  return pixels;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+/**
+ * 生成PNG数据块：长度、类型、数据和覆盖类型与数据的CRC
+ */
+function pngChunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * 通过压缩或解压流处理整段数据
+ */
+async function transform(input: Uint8Array<ArrayBuffer> | Blob, stream: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> {
+  const source = input instanceof Blob ? input : new Blob([input]);
+  return new Uint8Array(await new Response(source.stream().pipeThrough(stream)).arrayBuffer());
+}
@@ -0,0 +1,140 @@
+/**
+ * 自定义边缘剖面曲线 - 控制点之间使用单调三次样条插值
+ * 横轴为离边缘的归一化距离（0 = 轮廓处，1 = 边缘宽度处），纵轴为归一化高度（0 = 底面，1 = 满高度）
+ */
+
+export interface ProfilePoint {
+  x: number;
+  y: number;
+}
+
+export type ProfileCurve = ProfilePoint[];
+
+// 默认曲线：由轮廓处平缓抬起，接近顶面时收平
+export const DEFAULT_PROFILE_CURVE: ProfileCurve = [
+  { x: 0, y: 0 },
+  { x: 0.35, y: 0.55 },
+  { x: 1, y: 1 }
+];
+
+// 预计算的采样数，逐像素求值时线性插值查表
+const LOOKUP_SAMPLES = 1024;
+
+/**
+ * 规范化控制点：限制在单位正方形内、按横坐标排序，并保证首尾位于 x = 0 和 x = 1
+ */
+export function normalizeProfileCurve(curve: ProfileCurve): ProfileCurve {
+  const clamp = (value: number) => Math.max(0, Math.min(1, value));
+  const points = curve
+    .map(point => ({ x: clamp(point.x), y: clamp(point.y) }))
+    .sort((a, b) => a.x - b.x);
+
+  if (points.length === 0 || points[0].x > 0) {
+    points.unshift({ x: 0, y: points.length > 0 ? points[0].y : 0 });
+  }
+  if (points[points.length - 1].x < 1) {
+    points.push({ x: 1, y: points[points.length - 1].y });
+  }
+
+  return points;
+}
+
+/**
+ * 计算曲线在 t 处的高度（单调三次 Hermite 样条，Fritsch-Carlson 切线）
+ * 单调样条不会在控制点之间产生过冲，高度始终保持在相邻控制点之间
+ */
+export function evaluateProfileCurve(curve: ProfileCurve, t: number): number {
+  const points = normalizeProfileCurve(curve);
+  const tangents = computeTangents(points);
+  return evaluateWithTangents(points, tangents, t);
+}
+
+/**
+ * 生成查找表，用于逐像素快速求值
+ */
+export function createProfileLookup(curve: ProfileCurve): (t: number) => number {
+  const points = normalizeProfileCurve(curve);
+  const tangents = computeTangents(points);
+  const table = new Float32Array(LOOKUP_SAMPLES + 1);
+
+  for (let i = 0; i <= LOOKUP_SAMPLES; i++) {
+    table[i] = evaluateWithTangents(points, tangents, i / LOOKUP_SAMPLES);
+  }
+
+  return (t: number) => {
+    const position = Math.max(0, Math.min(1, t)) * LOOKUP_SAMPLES;
+    const index = Math.min(LOOKUP_SAMPLES - 1, Math.floor(position));
+    const fraction = position - index;
+    return table[index] * (1 - fraction) + table[index + 1] * fraction;
+  };
+}
+
+/**
+ * 从设置中读取曲线，格式无效时返回 null
+ */
+export function parseProfileCurve(value: unknown): ProfileCurve | null {
+  if (!Array.isArray(value) || value.length < 2) return null;
+
+  const valid = value.every(point =>
+    point !== null &&
+    typeof point === 'object' &&
+    Number.isFinite(point.x) &&
+    Number.isFinite(point.y)
+  );
+
+  return valid ? normalizeProfileCurve(value.map(point => ({ x: point.x, y: point.y }))) : null;
+}
+
+function computeTangents(points: ProfileCurve): number[] {
+  const n = points.length;
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    const dx = points[i + 1].x - points[i].x;
+    slopes.push(dx > 0 ? (points[i + 1].y - points[i].y) / dx : 0);
+  }
+
+  const tangents: number[] = [];
+  for (let i = 0; i < n; i++) {
+    if (i === 0) {
+      tangents.push(slopes[0] ?? 0);
+    } else if (i === n - 1) {
+      tangents.push(slopes[n - 2]);
+    } else if (slopes[i - 1] * slopes[i] <= 0) {
+      tangents.push(0); // 局部极值处切线水平，避免过冲
+    } else {
+      // 加权调和平均，保证单调
+      const h0 = points[i].x - points[i - 1].x;
+      const h1 = points[i + 1].x - points[i].x;
+      const w0 = 2 * h1 + h0;
+      const w1 = h1 + 2 * h0;
+      tangents.push((w0 + w1) / (w0 / slopes[i - 1] + w1 / slopes[i]));
+    }
+  }
+
+  return tangents;
+}
+
+function evaluateWithTangents(points: ProfileCurve, tangents: number[], t: number): number {
+  const x = Math.max(0, Math.min(1, t));
+
+  let i = 0;
+  while (i < points.length - 2 && x > points[i + 1].x) {
+    i++;
+  }
+
+  const p0 = points[i];
+  const p1 = points[i + 1];
+  const h = p1.x - p0.x;
+  if (h <= 0) return p1.y;
+
+  const s = (x - p0.x) / h;
+  const s2 = s * s;
+  const s3 = s2 * s;
+  const y =
+    (2 * s3 - 3 * s2 + 1) * p0.y +
+    (s3 - 2 * s2 + s) * h * tangents[i] +
+    (-2 * s3 + 3 * s2) * p1.y +
+    (s3 - s2) * h * tangents[i + 1];
+
+  return Math.max(0, Math.min(1, y));
+}
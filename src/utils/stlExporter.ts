@@ -2,89 +2,110 @@
  * STL文件导出工具
  */
 
+import { buildReliefMesh, HeightFieldOptions, SolidMesh } from './meshBuilder';
+import type { DepthField } from './depthField';
+import { downloadBlob } from './download';
+
+export type STLFormat = 'ascii' | 'binary';
+
 export interface STLExportOptions {
-  grayscaleData: ImageData;
-  height: number; // mm
+  depthMap: DepthField; // 与3D预览相同的深度图
+  meshOptions: HeightFieldOptions; // 与3D预览相同的建模参数
+  format?: STLFormat; // 输出格式，二进制格式体积更小，适合大尺寸深度图
   filename?: string;
 }
 
+// 每个Blob分块包含的三角形数量，避免拼接一个巨大的字符串或缓冲区
+const FACETS_PER_CHUNK = 20000;
+const BINARY_HEADER_BYTES = 80;
+const BINARY_FACET_BYTES = 50;
+
 /**
- * 从灰度图生成STL文件并下载
+ * 从深度图生成STL文件并下载
  */
 export function exportSTL(options: STLExportOptions): void {
-  const { grayscaleData, height, filename = '3d-model.stl' } = options;
-  const stlContent = generateSTLFromGrayscale(grayscaleData, height);
-  downloadSTL(stlContent, filename);
+  const { depthMap, meshOptions, format = 'ascii', filename = '3d-model.stl' } = options;
+  const mesh = buildReliefMesh(depthMap, meshOptions);
+
+  const blob = format === 'binary' ? writeBinarySTL(mesh) : writeAsciiSTL(mesh);
+  downloadBlob(blob, filename);
 }
 
 /**
- * 从灰度图生成STL内容
+ * 生成ASCII格式STL
+ * 输出为封闭的实体：浮雕顶面 + 沿轮廓的竖直侧壁 + 平整底面
  */
-function generateSTLFromGrayscale(imageData: ImageData, maxHeight: number): string {
-  const { width, height, data } = imageData;
-  const triangles: string[] = [];
-  
-  // STL文件头
-  let stlContent = 'solid generated_model\n';
-  
-  // 遍历每个像素，生成对应的几何体
-  for (let y = 0; y < height - 1; y++) {
-    for (let x = 0; x < width - 1; x++) {
-      // 获取四个角的高度值
-      const heights = [
-        getHeightAtPixel(data, x, y, width, height, maxHeight),
-        getHeightAtPixel(data, x + 1, y, width, height, maxHeight),
-        getHeightAtPixel(data, x, y + 1, width, height, maxHeight),
-        getHeightAtPixel(data, x + 1, y + 1, width, height, maxHeight)
-      ];
-      
-      // 计算世界坐标（假设1像素=0.1mm）
-      const scale = 0.1;
-      const vertices = [
-        { x: x * scale, y: y * scale, z: heights[0] },
-        { x: (x + 1) * scale, y: y * scale, z: heights[1] },
-        { x: x * scale, y: (y + 1) * scale, z: heights[2] },
-        { x: (x + 1) * scale, y: (y + 1) * scale, z: heights[3] }
-      ];
-      
-      // 只为有高度的区域生成三角形
-      if (heights.some(h => h > 0)) {
-        // 生成顶面的两个三角形
-        if (heights[0] > 0 || heights[1] > 0 || heights[2] > 0) {
-          triangles.push(createTriangle(vertices[0], vertices[1], vertices[2]));
-        }
-        if (heights[1] > 0 || heights[2] > 0 || heights[3] > 0) {
-          triangles.push(createTriangle(vertices[1], vertices[3], vertices[2]));
-        }
-        
-        // 生成侧面（边缘部分）
-        generateSideFaces(vertices, heights, triangles);
+export function writeAsciiSTL(mesh: SolidMesh, name: string = 'generated_model'): Blob {
+  const parts: string[] = [`solid ${name}\n`];
+  const triangleCount = mesh.indices.length / 3;
+
+  for (let start = 0; start < triangleCount; start += FACETS_PER_CHUNK) {
+    const end = Math.min(start + FACETS_PER_CHUNK, triangleCount);
+    const chunk: string[] = [];
+    for (let t = start; t < end; t++) {
+      const [v1, v2, v3] = triangleVertices(mesh, t);
+      chunk.push(createTriangle(v1, v2, v3));
+    }
+    parts.push(chunk.join('\n') + '\n');
+  }
+
+  parts.push(`endsolid ${name}\n`);
+  return new Blob(parts, { type: 'model/stl' });
+}
+
+/**
+ * 生成二进制格式STL：80字节文件头 + 三角形数量(uint32) + 每个三角形50字节
+ */
+export function writeBinarySTL(mesh: SolidMesh): Blob {
+  const triangleCount = mesh.indices.length / 3;
+  const header = new ArrayBuffer(BINARY_HEADER_BYTES + 4);
+  const headerText = 'binary STL generated by RaisedEdgeEdit';
+  const headerBytes = new Uint8Array(header);
+  for (let i = 0; i < headerText.length; i++) {
+    headerBytes[i] = headerText.charCodeAt(i);
+  }
+  new DataView(header).setUint32(BINARY_HEADER_BYTES, triangleCount, true);
+
+  const parts: ArrayBuffer[] = [header];
+
+  for (let start = 0; start < triangleCount; start += FACETS_PER_CHUNK) {
+    const end = Math.min(start + FACETS_PER_CHUNK, triangleCount);
+    const buffer = new ArrayBuffer((end - start) * BINARY_FACET_BYTES);
+    const view = new DataView(buffer);
+    let offset = 0;
+
+    for (let t = start; t < end; t++) {
+      const vertices = triangleVertices(mesh, t);
+      const normal = calculateNormal(vertices[0], vertices[1], vertices[2]);
+
+      for (const v of [normal, ...vertices]) {
+        view.setFloat32(offset, v.x, true);
+        view.setFloat32(offset + 4, v.y, true);
+        view.setFloat32(offset + 8, v.z, true);
+        offset += 12;
       }
+      view.setUint16(offset, 0, true); // 属性字节数
+      offset += 2;
     }
+
+    parts.push(buffer);
   }
-  
-  stlContent += triangles.join('\n');
-  stlContent += '\nendsolid generated_model\n';
-  
-  return stlContent;
+
+  return new Blob(parts, { type: 'model/stl' });
 }
 
 /**
- * 获取像素位置的高度值
+ * 读取第 t 个三角形的三个顶点
  */
-function getHeightAtPixel(
-  data: Uint8ClampedArray,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  maxHeight: number
-): number {
-  if (x < 0 || x >= width || y < 0 || y >= height) return 0;
-  
-  const index = (y * width + x) * 4;
-  const grayscale = data[index]; // 红色通道
-  return (grayscale / 255) * maxHeight;
+function triangleVertices(mesh: SolidMesh, t: number): [Vector3, Vector3, Vector3] {
+  const { positions, indices } = mesh;
+  const vertexAt = (index: number): Vector3 => ({
+    x: positions[index * 3],
+    y: positions[index * 3 + 1],
+    z: positions[index * 3 + 2]
+  });
+
+  return [vertexAt(indices[t * 3]), vertexAt(indices[t * 3 + 1]), vertexAt(indices[t * 3 + 2])];
 }
 
 /**
@@ -135,41 +156,6 @@ function calculateNormal(v1: Vector3, v2: Vector3, v3: Vector3): Vector3 {
   return normal;
 }
 
-/**
- * 生成侧面三角形
- */
-function generateSideFaces(_vertices: Vector3[], heights: number[], _triangles: string[]): void {
-  // 为边缘生成侧面，这里简化处理
-  // 实际应用中需要更复杂的算法来正确处理所有边缘情况
-  
-  // 检查是否在边界上，如果是则生成底面连接
-  for (let i = 0; i < 4; i++) {
-    if (heights[i] > 0) {
-      // const bottomVertex = { ...vertices[i], z: 0 };
-      
-      // 这里可以添加更多的侧面生成逻辑
-      // 为简化，我们只生成基本的底面连接
-    }
-  }
-}
-
-/**
- * 下载STL文件
- */
-function downloadSTL(stlContent: string, filename: string): void {
-  const blob = new Blob([stlContent], { type: 'text/plain' });
-  const url = URL.createObjectURL(blob);
-  
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  
-  URL.revokeObjectURL(url);
-}
-
 interface Vector3 {
   x: number;
   y: number;
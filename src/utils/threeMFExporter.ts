@@ -0,0 +1,149 @@
+/**
+ * 3MF文件导出工具 - OPC压缩包内的 3D/3dmodel.model，单位为毫米，附带生成参数
+ */
+
+import { buildReliefMesh, HeightFieldOptions, SolidMesh } from './meshBuilder';
+import type { DepthField } from './depthField';
+import { createZip } from './zipWriter';
+import { downloadBlob } from './download';
+import { formatFloat32 } from './numberFormat';
+
+export interface ThreeMFExportOptions {
+  depthMap: DepthField; // 与3D预览相同的深度图
+  meshOptions: HeightFieldOptions; // 与3D预览相同的建模参数
+  objectName?: string; // 切片软件中显示的对象名称，通常取源文件名
+  parameters?: Record<string, string | number | boolean>; // 生成参数，写入模型元数据
+  plateCenter?: { x: number; y: number }; // 模型在打印平台上的中心位置（mm）
+  filename?: string;
+}
+
+// 默认放在 200×200mm 打印平台的中心，更大的平台同样在可打印范围内
+const DEFAULT_PLATE_CENTER = { x: 100, y: 100 };
+// 每个数据块包含的顶点或三角形数量
+const ELEMENTS_PER_CHUNK = 20000;
+
+const CORE_NAMESPACE = 'http://schemas.microsoft.com/3dmanufacturing/core/2015/02';
+// 自定义元数据必须带命名空间前缀
+const PARAMETER_NAMESPACE = 'urn:raisededgeedit:parameters';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+/**
+ * 从深度图生成3MF文件并下载
+ */
+export function export3MF(options: ThreeMFExportOptions): void {
+  const { depthMap, meshOptions, filename = '3d-model.3mf', ...modelOptions } = options;
+  const mesh = buildReliefMesh(depthMap, meshOptions);
+
+  downloadBlob(write3MF(mesh, modelOptions), filename);
+}
+
+/**
+ * 将实体网格打包为3MF：[Content_Types].xml、_rels/.rels 和 3D/3dmodel.model
+ */
+export function write3MF(mesh: SolidMesh, options: Pick<ThreeMFExportOptions, 'objectName' | 'parameters' | 'plateCenter'> = {}): Blob {
+  const encoder = new TextEncoder();
+  return createZip(
+    [
+      { name: '[Content_Types].xml', chunks: [encoder.encode(CONTENT_TYPES)] },
+      { name: '_rels/.rels', chunks: [encoder.encode(RELATIONSHIPS)] },
+      { name: '3D/3dmodel.model', chunks: writeModelXml(mesh, options).map(text => encoder.encode(text)) }
+    ],
+    'model/3mf'
+  );
+}
+
+/**
+ * 生成 3dmodel.model 的XML文本，按块返回
+ * 顶点保持建模坐标（底面 z = 0），通过 build item 的变换把模型水平居中到打印平台上
+ */
+function writeModelXml(mesh: SolidMesh, options: Pick<ThreeMFExportOptions, 'objectName' | 'parameters' | 'plateCenter'>): string[] {
+  const { objectName = 'relief', parameters = {}, plateCenter = DEFAULT_PLATE_CENTER } = options;
+  const { positions, indices } = mesh;
+  const vertexCount = positions.length / 3;
+  const triangleCount = indices.length / 3;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < positions.length; i += 3) {
+    minX = Math.min(minX, positions[i]);
+    maxX = Math.max(maxX, positions[i]);
+    minY = Math.min(minY, positions[i + 1]);
+    maxY = Math.max(maxY, positions[i + 1]);
+  }
+  const offsetX = vertexCount > 0 ? plateCenter.x - (minX + maxX) / 2 : 0;
+  const offsetY = vertexCount > 0 ? plateCenter.y - (minY + maxY) / 2 : 0;
+
+  const metadata = [
+    metadataElement('Title', objectName),
+    metadataElement('Application', 'RaisedEdgeEdit'),
+    metadataElement('CreationDate', new Date().toISOString().slice(0, 10)),
+    ...Object.entries(parameters).map(([key, value]) => metadataElement(`param:${key}`, String(value)))
+  ];
+
+  const chunks: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<model unit="millimeter" xml:lang="zh-CN" xmlns="${CORE_NAMESPACE}" xmlns:param="${PARAMETER_NAMESPACE}">\n` +
+    metadata.join('') +
+    `  <resources>\n` +
+    `    <object id="1" type="model" name="${escapeXml(objectName)}">\n` +
+    `      <mesh>\n` +
+    `        <vertices>\n`
+  ];
+
+  for (let start = 0; start < vertexCount; start += ELEMENTS_PER_CHUNK) {
+    const end = Math.min(start + ELEMENTS_PER_CHUNK, vertexCount);
+    const lines: string[] = [];
+    for (let v = start; v < end; v++) {
+      lines.push(`          <vertex x="${formatFloat32(positions[v * 3])}" y="${formatFloat32(positions[v * 3 + 1])}" z="${formatFloat32(positions[v * 3 + 2])}"/>\n`);
+    }
+    chunks.push(lines.join(''));
+  }
+
+  chunks.push(`        </vertices>\n        <triangles>\n`);
+
+  for (let start = 0; start < triangleCount; start += ELEMENTS_PER_CHUNK) {
+    const end = Math.min(start + ELEMENTS_PER_CHUNK, triangleCount);
+    const lines: string[] = [];
+    for (let t = start; t < end; t++) {
+      lines.push(`          <triangle v1="${indices[t * 3]}" v2="${indices[t * 3 + 1]}" v3="${indices[t * 3 + 2]}"/>\n`);
+    }
+    chunks.push(lines.join(''));
+  }
+
+  chunks.push(
+    `        </triangles>\n` +
+    `      </mesh>\n` +
+    `    </object>\n` +
+    `  </resources>\n` +
+    `  <build>\n` +
+    `    <item objectid="1" transform="1 0 0 0 1 0 0 0 1 ${formatFloat32(offsetX)} ${formatFloat32(offsetY)} 0"/>\n` +
+    `  </build>\n` +
+    `</model>\n`
+  );
+
+  return chunks;
+}
+
+function metadataElement(name: string, value: string): string {
+  return `  <metadata name="${name}">${escapeXml(value)}</metadata>\n`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
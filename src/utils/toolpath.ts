@@ -0,0 +1,413 @@
+/**
+ * CNC刀路生成 - 在处理后的高度场上生成平行光栅（沿 X 或 Y）的分层粗加工和精加工刀路
+ * 刀具补偿采用"落刀"法：刀尖高度取刀具覆盖范围内各点的高度减去该点处刀具表面高出刀尖的量，再取最大值，
+ * 因此球头刀、平底刀和V刀都不会过切，只会在刀具进不去的窄槽和内角处留下余料
+ */
+
+import type { DepthField } from './depthField';
+import { HeightFieldOptions, depthMapToHeightField } from './meshBuilder';
+
+export type ToolShape = 'ball' | 'flat' | 'vbit';
+export type RasterDirection = 'x' | 'y';
+
+export interface ToolpathOptions {
+  toolShape: ToolShape;
+  toolDiameter: number; // 刀具直径（mm），V刀为参与切削的最大直径
+  vBitAngle: number; // V刀的刀尖夹角（度）
+  direction: RasterDirection; // 切削行的方向
+  stepover: number; // 相邻切削行的间距（mm）
+  roughing: boolean; // 精加工之前按层粗加工
+  stepdown: number; // 粗加工每层的下刀深度（mm）
+  stockToLeave: number; // 粗加工给精加工留下的余量（mm）
+  resolution: number; // 沿切削方向的采样间距（mm），不小于深度图的像素尺寸
+}
+
+export const DEFAULT_TOOLPATH_OPTIONS: ToolpathOptions = {
+  toolShape: 'ball',
+  toolDiameter: 1,
+  vBitAngle: 60,
+  direction: 'x',
+  stepover: 0.1,
+  roughing: false,
+  stepdown: 0.5,
+  stockToLeave: 0.1,
+  resolution: 0.05
+};
+
+export const TOOL_SHAPES: ToolShape[] = ['ball', 'flat', 'vbit'];
+
+export type ToolpathPassKind = 'roughing' | 'finishing';
+
+export interface ToolpathPass {
+  kind: ToolpathPassKind;
+  level: number | null; // 粗加工层的高度（mm），精加工为 null
+  segments: Float32Array[]; // 连续切削的折线，xyz 为网格坐标（mm），z 为刀尖高度；折线之间抬刀
+}
+
+export interface Toolpath {
+  options: ToolpathOptions;
+  passes: ToolpathPass[];
+  stockTop: number; // 毛坯顶面的高度（mm），即浮雕最高点，G代码以此为 Z0
+  width: number; // 加工范围（mm），与网格坐标一致，左下角为原点
+  height: number;
+  cuttingLength: number; // 切削移动的总长度（mm）
+}
+
+// 折线简化允许的偏差（mm），小于G代码输出的精度
+const PATH_TOLERANCE = 0.002;
+
+// 采样网格：每个单元格取所覆盖像素的最高点，按单元格范围计算刀具补偿，结果偏向多留料而不会过切
+interface SurfaceGrid {
+  width: number;
+  height: number;
+  spacing: number; // 单元格边长（mm）
+  values: Float32Array; // 自下而上逐行存储，单元格 (i, j) 覆盖 [i, i+1]×[j, j+1] 个 spacing
+}
+
+/**
+ * 从深度图和建模参数生成刀路，高度场与3D预览和模型导出一致
+ */
+export function generateToolpath(depthMap: DepthField, meshOptions: HeightFieldOptions, options: ToolpathOptions): Toolpath {
+  const startTime = performance.now();
+  const field = depthMapToHeightField(depthMap, meshOptions);
+  const grid = createSurfaceGrid(field.width, field.height, field.mmPerPixel, field.heights, field.solidAlpha, field.contourAlpha, options.resolution);
+  const dropTool = createDropCutter(grid, options);
+
+  const width = field.width * field.mmPerPixel;
+  const height = field.height * field.mmPerPixel;
+  const alongX = options.direction === 'x';
+  const alongLength = alongX ? width : height;
+  const acrossLength = alongX ? height : width;
+  const toPoint = (along: number, across: number): [number, number] => (alongX ? [along, across] : [across, along]);
+
+  // 每行的采样位置和补偿后的刀尖高度只计算一次，粗加工各层与精加工共用
+  const alongSamples = sampleRange(alongLength, grid.spacing);
+  const lines = sampleRange(acrossLength, Math.max(options.stepover, grid.spacing));
+  const lineHeights = lines.map(across => {
+    const heights = new Float32Array(alongSamples.length);
+    alongSamples.forEach((along, m) => {
+      heights[m] = dropTool(...toPoint(along, across));
+    });
+    return heights;
+  });
+
+  let stockTop = 0;
+  for (const value of grid.values) stockTop = Math.max(stockTop, value);
+
+  const passes: ToolpathPass[] = [];
+  if (options.roughing && options.stepdown > 0) {
+    passes.push(...generateRoughingPasses(lines, alongSamples, lineHeights, stockTop, options, toPoint, dropTool, grid.spacing));
+  }
+  passes.push(generateFinishingPass(lines, alongSamples, lineHeights, toPoint, dropTool, grid.spacing));
+
+  let cuttingLength = 0;
+  for (const pass of passes) {
+    for (const segment of pass.segments) cuttingLength += polylineLength(segment);
+  }
+
+  console.log(
+    `刀路生成完成: ${lines.length} 行 × ${alongSamples.length} 点，${passes.length} 遍，` +
+    `切削长度 ${(cuttingLength / 1000).toFixed(1)}m，用时 ${(performance.now() - startTime).toFixed(0)}ms`
+  );
+
+  return { options, passes, stockTop, width, height, cuttingLength };
+}
+
+/**
+ * 精加工：逐行往复（之字形），行尾沿边缘移到下一行，整遍为一条连续折线
+ */
+function generateFinishingPass(
+  lines: number[],
+  alongSamples: number[],
+  lineHeights: Float32Array[],
+  toPoint: (along: number, across: number) => [number, number],
+  dropTool: (x: number, y: number) => number,
+  spacing: number
+): ToolpathPass {
+  const points: number[] = [];
+  const push = (along: number, across: number, z: number) => points.push(...toPoint(along, across), z);
+
+  lines.forEach((across, n) => {
+    const forward = n % 2 === 0;
+    for (let k = 0; k < alongSamples.length; k++) {
+      const m = forward ? k : alongSamples.length - 1 - k;
+      push(alongSamples[m], across, lineHeights[n][m]);
+    }
+
+    // 换行移动同样经过补偿，不会擦伤边缘处的实体
+    if (n + 1 < lines.length) {
+      const along = alongSamples[forward ? alongSamples.length - 1 : 0];
+      for (let c = across + spacing; c < lines[n + 1]; c += spacing) {
+        push(along, c, dropTool(...toPoint(along, c)));
+      }
+    }
+  });
+
+  return { kind: 'finishing', level: null, segments: [simplifyPolyline(new Float32Array(points), PATH_TOLERANCE)] };
+}
+
+/**
+ * 分层粗加工：每层只切削该层以上仍有余料（目标高度低于上一层）的连续区间，刀尖不低于目标高度加余量
+ * 相邻行的区间之间直线移动不会切入成品时直接连接，否则抬刀
+ */
+function generateRoughingPasses(
+  lines: number[],
+  alongSamples: number[],
+  lineHeights: Float32Array[],
+  stockTop: number,
+  options: ToolpathOptions,
+  toPoint: (along: number, across: number) => [number, number],
+  dropTool: (x: number, y: number) => number,
+  spacing: number
+): ToolpathPass[] {
+  const allowance = Math.max(0, options.stockToLeave);
+  let lowest = Infinity;
+  for (const heights of lineHeights) {
+    for (const z of heights) lowest = Math.min(lowest, z + allowance);
+  }
+
+  const passes: ToolpathPass[] = [];
+  let previousLevel = stockTop;
+
+  while (previousLevel - lowest > 1e-4) {
+    const level = Math.max(lowest, previousLevel - options.stepdown);
+    const segments: Float32Array[] = [];
+    let current: number[] | null = null;
+
+    for (let n = 0; n < lines.length; n++) {
+      const forward = n % 2 === 0;
+      let inRun = false;
+
+      for (let k = 0; k < alongSamples.length; k++) {
+        const m = forward ? k : alongSamples.length - 1 - k;
+        const target = lineHeights[n][m] + allowance;
+        if (target >= previousLevel - 1e-4) {
+          inRun = false;
+          continue;
+        }
+
+        const [x, y] = toPoint(alongSamples[m], lines[n]);
+        const z = Math.max(level, target);
+        if (!inRun) {
+          inRun = true;
+          // 连接只在相邻行之间进行，避免长距离斜向切入
+          const linked = current !== null && canLink(current, x, y, z, options.stepover * 2, spacing, allowance, dropTool);
+          if (current && !linked) {
+            segments.push(simplifyPolyline(new Float32Array(current), PATH_TOLERANCE));
+          }
+          if (!linked) current = [];
+        }
+        current!.push(x, y, z);
+      }
+    }
+
+    if (current) segments.push(simplifyPolyline(new Float32Array(current), PATH_TOLERANCE));
+    passes.push({ kind: 'roughing', level, segments });
+    previousLevel = level;
+  }
+
+  return passes;
+}
+
+/**
+ * 从折线末端直线移动到 (x, y, z) 时，沿途刀尖是否都不低于成品表面加余量
+ */
+function canLink(
+  points: number[],
+  x: number,
+  y: number,
+  z: number,
+  maxDistance: number,
+  spacing: number,
+  allowance: number,
+  dropTool: (x: number, y: number) => number
+): boolean {
+  const startX = points[points.length - 3];
+  const startY = points[points.length - 2];
+  const startZ = points[points.length - 1];
+  const distance = Math.hypot(x - startX, y - startY);
+  if (distance > maxDistance) return false;
+
+  const steps = Math.max(1, Math.ceil(distance / spacing));
+  for (let s = 1; s < steps; s++) {
+    const t = s / steps;
+    const required = dropTool(startX + (x - startX) * t, startY + (y - startY) * t) + allowance;
+    if (startZ + (z - startZ) * t < required - 1e-4) return false;
+  }
+  return true;
+}
+
+/**
+ * 把高度场重采样为刀路网格，实体外（包括底板外）的高度为 0，即加工底面
+ */
+function createSurfaceGrid(
+  fieldWidth: number,
+  fieldHeight: number,
+  mmPerPixel: number,
+  heights: Float32Array,
+  solidAlpha: Uint8Array,
+  contourAlpha: number,
+  resolution: number
+): SurfaceGrid {
+  const factor = Math.max(1, Math.round(resolution / mmPerPixel));
+  const width = Math.ceil(fieldWidth / factor);
+  const height = Math.ceil(fieldHeight / factor);
+  const values = new Float32Array(width * height);
+
+  for (let row = 0; row < fieldHeight; row++) {
+    // 高度场自上而下存储，网格与网格坐标一样 y 轴朝上
+    const j = Math.floor((fieldHeight - 1 - row) / factor);
+    for (let x = 0; x < fieldWidth; x++) {
+      const index = row * fieldWidth + x;
+      if (solidAlpha[index] < contourAlpha) continue;
+
+      const cell = j * width + Math.floor(x / factor);
+      values[cell] = Math.max(values[cell], heights[index]);
+    }
+  }
+
+  return { width, height, spacing: mmPerPixel * factor, values };
+}
+
+/**
+ * 落刀函数：返回刀具中心位于 (x, y) 时刀尖能下降到的最低高度
+ * 单元格到刀具中心的距离取单元格范围内的最近点，刀具表面在距离 d 处高出刀尖：
+ * 球头刀 r - √(r² - d²)，平底刀 0，V刀 d / tan(夹角/2)
+ */
+function createDropCutter(grid: SurfaceGrid, options: ToolpathOptions): (x: number, y: number) => number {
+  const { width, height, spacing, values } = grid;
+  const radius = Math.max(options.toolDiameter / 2, spacing / 2);
+  const radiusSquared = radius * radius;
+  const halfAngle = (Math.max(1, Math.min(179, options.vBitAngle)) / 2) * Math.PI / 180;
+  const vSlope = 1 / Math.tan(halfAngle);
+
+  const toolRise = (distance: number): number => {
+    switch (options.toolShape) {
+      case 'ball':
+        return radius - Math.sqrt(Math.max(0, radiusSquared - distance * distance));
+      case 'vbit':
+        return distance * vSlope;
+      default:
+        return 0;
+    }
+  };
+
+  return (x, y) => {
+    let z = 0;
+    const j0 = Math.max(0, Math.floor((y - radius) / spacing));
+    const j1 = Math.min(height - 1, Math.floor((y + radius) / spacing));
+
+    for (let j = j0; j <= j1; j++) {
+      const dy = Math.max(0, Math.abs((j + 0.5) * spacing - y) - spacing / 2);
+      if (dy > radius) continue;
+
+      const chord = Math.sqrt(radiusSquared - dy * dy);
+      const i0 = Math.max(0, Math.floor((x - chord) / spacing));
+      const i1 = Math.min(width - 1, Math.floor((x + chord) / spacing));
+      const row = j * width;
+
+      for (let i = i0; i <= i1; i++) {
+        const value = values[row + i];
+        // 刀具表面不低于刀尖，不高于当前结果的点不会抬高刀具
+        if (value <= z) continue;
+
+        const dx = Math.max(0, Math.abs((i + 0.5) * spacing - x) - spacing / 2);
+        const distanceSquared = dx * dx + dy * dy;
+        if (distanceSquared > radiusSquared) continue;
+
+        z = Math.max(z, value - toolRise(Math.sqrt(distanceSquared)));
+      }
+    }
+    return z;
+  };
+}
+
+/**
+ * 从 0 到 length 按间距采样，末端总是包含 length
+ */
+function sampleRange(length: number, spacing: number): number[] {
+  const count = Math.max(1, Math.ceil(length / spacing - 1e-6));
+  return Array.from({ length: count + 1 }, (_, k) => Math.min(length, k * spacing));
+}
+
+function polylineLength(points: Float32Array): number {
+  let length = 0;
+  for (let i = 3; i < points.length; i += 3) {
+    length += Math.hypot(points[i] - points[i - 3], points[i + 1] - points[i - 2], points[i + 2] - points[i - 1]);
+  }
+  return length;
+}
+
+/**
+ * Douglas-Peucker 折线简化，去掉在允许偏差内共线的点，平坦区域的长直线只保留两端
+ */
+function simplifyPolyline(points: Float32Array, tolerance: number): Float32Array {
+  const count = points.length / 3;
+  if (count <= 2) return points;
+
+  const keep = new Uint8Array(count);
+  keep[0] = 1;
+  keep[count - 1] = 1;
+  const stack: number[] = [0, count - 1];
+  const toleranceSquared = tolerance * tolerance;
+
+  while (stack.length > 0) {
+    const last = stack.pop()!;
+    const first = stack.pop()!;
+
+    const ax = points[first * 3], ay = points[first * 3 + 1], az = points[first * 3 + 2];
+    const dx = points[last * 3] - ax, dy = points[last * 3 + 1] - ay, dz = points[last * 3 + 2] - az;
+    const lengthSquared = dx * dx + dy * dy + dz * dz;
+
+    let farthest = -1;
+    let farthestDistance = toleranceSquared;
+    for (let i = first + 1; i < last; i++) {
+      const px = points[i * 3] - ax, py = points[i * 3 + 1] - ay, pz = points[i * 3 + 2] - az;
+      const t = lengthSquared > 0 ? Math.max(0, Math.min(1, (px * dx + py * dy + pz * dz) / lengthSquared)) : 0;
+      const ex = px - t * dx, ey = py - t * dy, ez = pz - t * dz;
+      const distance = ex * ex + ey * ey + ez * ez;
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+
+    if (farthest >= 0) {
+      keep[farthest] = 1;
+      stack.push(first, farthest, farthest, last);
+    }
+  }
+
+  const result = new Float32Array(keep.reduce((sum, value) => sum + value, 0) * 3);
+  let target = 0;
+  for (let i = 0; i < count; i++) {
+    if (!keep[i]) continue;
+    result[target++] = points[i * 3];
+    result[target++] = points[i * 3 + 1];
+    result[target++] = points[i * 3 + 2];
+  }
+  return result;
+}
+
+/**
+ * 校验从localStorage恢复的刀路参数
+ */
+export function parseToolpathOptions(value: unknown): ToolpathOptions | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const parsed = { ...DEFAULT_TOOLPATH_OPTIONS, ...value } as ToolpathOptions;
+  const positive = (number: unknown, fallback: number) =>
+    typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : fallback;
+  return {
+    ...parsed,
+    toolShape: TOOL_SHAPES.includes(parsed.toolShape) ? parsed.toolShape : DEFAULT_TOOLPATH_OPTIONS.toolShape,
+    direction: parsed.direction === 'y' ? 'y' : 'x',
+    toolDiameter: positive(parsed.toolDiameter, DEFAULT_TOOLPATH_OPTIONS.toolDiameter),
+    vBitAngle: positive(parsed.vBitAngle, DEFAULT_TOOLPATH_OPTIONS.vBitAngle),
+    stepover: positive(parsed.stepover, DEFAULT_TOOLPATH_OPTIONS.stepover),
+    stepdown: positive(parsed.stepdown, DEFAULT_TOOLPATH_OPTIONS.stepdown),
+    resolution: positive(parsed.resolution, DEFAULT_TOOLPATH_OPTIONS.resolution),
+    stockToLeave: typeof parsed.stockToLeave === 'number' && parsed.stockToLeave >= 0 ? parsed.stockToLeave : DEFAULT_TOOLPATH_OPTIONS.stockToLeave,
+    roughing: parsed.roughing === true
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * CNC刀路 Worker - 落刀补偿和刀路生成在后台线程执行，避免阻塞界面
+ * 生成的折线通过可转移的 ArrayBuffer 传回，不复制
+ */
+
+import { generateToolpath } from './toolpath';
+import type { ToolpathWorkerMessage, ToolpathWorkerRequest } from './toolpathWorkerClient';
+
+// tsconfig 未包含 WebWorker 类型库，Worker 全局对象的收发接口与 Worker 实例一致
+const workerScope = self as unknown as Worker;
+
+const post = (message: ToolpathWorkerMessage, transfer: Transferable[] = []) => {
+  workerScope.postMessage(message, transfer);
+};
+
+workerScope.onmessage = (event: MessageEvent<ToolpathWorkerRequest>) => {
+  const { jobId, depthMap, meshOptions, options } = event.data;
+
+  try {
+    const toolpath = generateToolpath(depthMap, meshOptions, options);
+    const buffers = toolpath.passes.flatMap(pass => pass.segments.map(segment => segment.buffer as ArrayBuffer));
+    post({ type: 'done', jobId, toolpath }, buffers);
+  } catch (error) {
+    post({ type: 'error', jobId, message: error instanceof Error ? error.message : String(error) });
+  }
+};
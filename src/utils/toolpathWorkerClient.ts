@@ -0,0 +1,101 @@
+/**
+ * CNC刀路 Worker 的调用端 - 同一时间只关心一个任务，新任务到来时取消旧任务
+ * 刀路生成是一次同步计算，Worker 在计算中途收不到取消消息，因此取消时直接终止 Worker；
+ * 刀路不缓存中间结果，下次生成时重新创建 Worker 即可
+ */
+
+import type { DepthField } from './depthField';
+import type { HeightFieldOptions } from './meshBuilder';
+import type { Toolpath, ToolpathOptions } from './toolpath';
+
+export interface ToolpathWorkerRequest {
+  jobId: number;
+  depthMap: DepthField;
+  meshOptions: HeightFieldOptions;
+  options: ToolpathOptions;
+}
+
+export type ToolpathWorkerMessage =
+  | { type: 'done'; jobId: number; toolpath: Toolpath }
+  | { type: 'error'; jobId: number; message: string };
+
+interface PendingJob {
+  jobId: number;
+  resolve: (result: Toolpath | null) => void;
+}
+
+export interface ToolpathGenerator {
+  // 生成刀路，任务被取消时返回 null
+  generate(depthMap: DepthField, meshOptions: HeightFieldOptions, options: ToolpathOptions): Promise<Toolpath | null>;
+  cancel(): void;
+  dispose(): void;
+}
+
+export function createToolpathGenerator(): ToolpathGenerator {
+  let worker: Worker | null = null;
+  let pending: PendingJob | null = null;
+  let nextJobId = 0;
+
+  const terminate = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  const cancel = () => {
+    if (!pending) return;
+
+    terminate();
+    pending.resolve(null);
+    pending = null;
+    console.log('已取消进行中的刀路生成任务');
+  };
+
+  return {
+    generate(depthMap, meshOptions, options) {
+      cancel();
+
+      const activeWorker = worker ?? new Worker(new URL('./toolpathWorker.ts', import.meta.url), { type: 'module' });
+      worker = activeWorker;
+      const jobId = ++nextJobId;
+
+      return new Promise((resolve, reject) => {
+        pending = { jobId, resolve };
+
+        const finish = () => {
+          pending = null;
+          activeWorker.onmessage = null;
+          activeWorker.onerror = null;
+        };
+
+        activeWorker.onmessage = (event: MessageEvent<ToolpathWorkerMessage>) => {
+          const message = event.data;
+          if (message.jobId !== jobId) return;
+
+          finish();
+          if (message.type === 'done') {
+            resolve(message.toolpath);
+          } else {
+            reject(new Error(message.message));
+          }
+        };
+
+        activeWorker.onerror = (event) => {
+          finish();
+          terminate();
+          reject(new Error(event.message || '刀路生成 Worker 出错'));
+        };
+
+        // 深度图仍保留在界面状态中，按结构化克隆复制，不转移
+        const request: ToolpathWorkerRequest = { jobId, depthMap, meshOptions, options };
+        activeWorker.postMessage(request);
+      });
+    },
+
+    cancel,
+
+    dispose() {
+      cancel();
+      terminate();
+    }
+  };
+}
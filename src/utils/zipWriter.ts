@@ -0,0 +1,92 @@
+/**
+ * 最小的ZIP写入工具 - 仅使用存储方式（不压缩），用于3MF等OPC打包格式
+ * 文件内容按分块传入，CRC32逐块累计，不需要拼接成一个巨大的缓冲区
+ */
+
+import { crc32 } from './crc32';
+
+export interface ZipEntry {
+  name: string; // 包内路径，使用正斜杠
+  chunks: Uint8Array<ArrayBuffer>[];
+}
+
+const LOCAL_HEADER_BYTES = 30;
+const CENTRAL_HEADER_BYTES = 46;
+const END_RECORD_BYTES = 22;
+const UTF8_FLAG = 0x0800;
+
+/**
+ * 将文件条目打包为ZIP，返回的Blob直接引用各数据块
+ */
+export function createZip(entries: ZipEntry[], mimeType: string = 'application/zip'): Blob {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const centralHeaders: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    let size = 0;
+    let crc = 0;
+    for (const chunk of entry.chunks) {
+      crc = crc32(chunk, crc);
+      size += chunk.length;
+    }
+
+    const local = new Uint8Array(LOCAL_HEADER_BYTES + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true); // 解压所需版本 2.0
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, 0, true); // 存储方式
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, size, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, LOCAL_HEADER_BYTES);
+
+    const central = new Uint8Array(CENTRAL_HEADER_BYTES + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true); // 创建版本
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, UTF8_FLAG, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true); // 本地文件头的偏移
+    central.set(name, CENTRAL_HEADER_BYTES);
+
+    parts.push(local, ...entry.chunks);
+    centralHeaders.push(central);
+    offset += local.length + size;
+  }
+
+  const centralSize = centralHeaders.reduce((sum, header) => sum + header.length, 0);
+  const end = new Uint8Array(END_RECORD_BYTES);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralHeaders, end], { type: mimeType });
+}
+
+/**
+ * ZIP使用的MS-DOS日期时间格式，秒数精度为2秒
+ */
+function dosDateTime(value: Date): { time: number; date: number } {
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | (value.getSeconds() >> 1),
+    date: ((value.getFullYear() - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate()
+  };
+}